@@ -0,0 +1,808 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {File as GenAIFile} from '@google/genai';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {
+  estimateGenerateContentTokens,
+  listYoutubePlaylist,
+  releaseVideoContextCache,
+  searchYoutubeVideos,
+  uploadFile,
+  UploadProgress,
+} from './api';
+import {BatchEntry, describeBatchStatus, runBatch} from './batch';
+import BatchRunner from './BatchRunner';
+import {
+  CustomMode,
+  customModeToMode,
+  loadCustomModes,
+  onCustomModesChange,
+} from './customModes';
+import FileCacheManager from './FileCacheManager';
+import './LiveChat';
+import ModeEditor from './ModeEditor';
+import modes, {ModeInput, modeFunctions, ModeOption} from './modes';
+import ResultView from './ResultView';
+import {GenerateResult, generateResult} from './results';
+import {
+  describeTokenOverflow,
+  formatTokenEstimate,
+  TokenEstimate,
+} from './tokens';
+import {
+  mergeSegmentResults,
+  SEGMENT_LENGTH_CHOICES,
+  segmentTasks,
+} from './segments';
+import {Cue, resultCues, subtitleCues, withTranscript} from './subtitles';
+import {isAbortError} from './utils';
+import TranscriptEditor from './TranscriptEditor';
+import VideoPlayer from './VideoPlayer';
+import {findYouTubeUrl, watchUrl, YouTubePlaylist} from './youtube';
+
+interface YouTubeSearchResult {
+  videoId: string;
+  title: string;
+  thumbnailUrl: string;
+}
+
+// Preset choice that takes free text instead.
+const CUSTOM_PRESET = 'Custom';
+
+const builtInModeOptions: ModeOption[] = Object.entries(modes).map(
+  ([name, mode]) => ({key: name, name, mode}),
+);
+
+const customModeOption = (mode: CustomMode): ModeOption => ({
+  key: `custom:${mode.id}`,
+  name: mode.name,
+  mode: customModeToMode(mode),
+  customModeId: mode.id,
+});
+
+export default function App() {
+  const [vidUrl, setVidUrl] = useState<string | null>(null);
+  const [videoMimeType, setVideoMimeType] = useState<string | null>(null);
+  const [file, setFile] = useState<GenAIFile | null>(null);
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null);
+  const [isLoadingVideo, setIsLoadingVideo] = useState(false);
+  const [videoError, setVideoError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(
+    null,
+  );
+
+  const [youtubeVideoId, setYoutubeVideoId] = useState<string | null>(null);
+  // Where the player starts, from the t= of the pasted URL.
+  const [youtubeStartSecs, setYoutubeStartSecs] = useState(0);
+  const [youtubePlaylist, setYoutubePlaylist] =
+    useState<YouTubePlaylist | null>(null);
+  const [youtubeUrlInput, setYoutubeUrlInput] = useState('');
+  const [youtubeSearchQuery, setYoutubeSearchQuery] = useState('');
+  const [isSearchingYoutube, setIsSearchingYoutube] = useState(false);
+  const [youtubeSearchResults, setYoutubeSearchResults] = useState<
+    YouTubeSearchResult[]
+  >([]);
+  const [youtubeSearchError, setYoutubeSearchError] = useState<string | null>(
+    null,
+  );
+
+  const [customModes, setCustomModes] = useState(loadCustomModes);
+  const [selectedMode, setSelectedMode] = useState(builtInModeOptions[0].key);
+  // The mode that produced the current output, kept even if it is edited.
+  const [activeMode, setActiveMode] = useState<ModeOption | null>(null);
+  // Typed input values and chosen presets, per mode key and input name.
+  const [inputValues, setInputValues] = useState<
+    Record<string, Record<string, string>>
+  >({});
+  const [presetChoices, setPresetChoices] = useState<
+    Record<string, Record<string, string>>
+  >({});
+  const [resultLabel, setResultLabel] = useState('');
+  // Segment length for long videos, or null to analyze the whole video in
+  // one request.
+  const [segmentSecs, setSegmentSecs] = useState<number | null>(null);
+  // YouTube videos aren't loaded locally, so their length is typed in.
+  const [youtubeMinutes, setYoutubeMinutes] = useState('');
+  const [segmentEntries, setSegmentEntries] = useState<BatchEntry[] | null>(
+    null,
+  );
+  const [result, setResult] = useState<GenerateResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Answer text streamed so far while a mode runs.
+  const [partialText, setPartialText] = useState('');
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [showFileCache, setShowFileCache] = useState(false);
+  const [showModeEditor, setShowModeEditor] = useState(false);
+  const [showBatchRunner, setShowBatchRunner] = useState(false);
+  // Captions or a transcript imported for the video, sent with every request.
+  const [transcript, setTranscript] = useState<Cue[] | null>(null);
+  const [showTranscriptEditor, setShowTranscriptEditor] = useState(false);
+  const [modeEstimate, setModeEstimate] = useState<TokenEstimate | null>(null);
+
+  const [theme] = useState(
+    window.matchMedia('(prefers-color-scheme: dark)').matches
+      ? 'dark'
+      : 'light',
+  );
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const uploadControllerRef = useRef<AbortController | null>(null);
+
+  const modeOptions = [
+    ...builtInModeOptions,
+    ...customModes.map(customModeOption),
+  ];
+  // Falls back to the first mode if the selected custom mode was deleted.
+  const selectedOption =
+    modeOptions.find(({key}) => key === selectedMode) ?? modeOptions[0];
+  const hasVideo = !!file || !!youtubeVideoId;
+  const durationSecs = youtubeVideoId
+    ? Number(youtubeMinutes) * 60 || 0
+    : video?.duration || 0;
+  const isSegmented = !!segmentSecs && durationSecs > segmentSecs;
+  // The result on screen, merged from its segments in a segmented run.
+  const shownResult = useMemo(
+    () => (segmentEntries ? mergeSegmentResults(segmentEntries) : result),
+    [segmentEntries, result],
+  );
+  const shownRanges = useMemo(
+    () =>
+      shownResult && shownResult.name !== 'text'
+        ? resultCues(shownResult)
+        : null,
+    [shownResult],
+  );
+  // Captions and key moments play as subtitles on the video.
+  const shownCaptions = useMemo(
+    () =>
+      shownResult?.name === 'set_timecodes' ||
+      shownResult?.name === 'set_timecodes_with_objects'
+        ? subtitleCues(shownResult, durationSecs || undefined)
+        : null,
+    [shownResult, durationSecs],
+  );
+
+  useEffect(() => onCustomModesChange(setCustomModes), []);
+
+  const presetChoice = (option: ModeOption, input: ModeInput) =>
+    input.presets
+      ? (presetChoices[option.key]?.[input.name] ??
+        Object.keys(input.presets)[0])
+      : CUSTOM_PRESET;
+
+  const presetValue = (option: ModeOption, input: ModeInput) =>
+    input.presets?.[presetChoice(option, input)];
+
+  const inputValue = (option: ModeOption, input: ModeInput) =>
+    presetValue(option, input) ??
+    inputValues[option.key]?.[input.name]?.trim() ??
+    '';
+
+  // Inputs the user has to type, because no preset covers them.
+  const typedInputs = selectedOption.mode.inputs.filter(
+    (input) => presetValue(selectedOption, input) === undefined,
+  );
+  const hasMissingInputs = typedInputs.some(
+    (input) => !inputValue(selectedOption, input),
+  );
+
+  const buildPrompt = (option: ModeOption) =>
+    withTranscript(
+      option.mode.prompt(
+        Object.fromEntries(
+          option.mode.inputs.map((input) => [
+            input.name,
+            inputValue(option, input),
+          ]),
+        ),
+      ),
+      transcript,
+    );
+
+  // Names the result, e.g. the chart's y axis: the chosen preset, the typed
+  // text or the mode name.
+  const describeResult = (option: ModeOption) => {
+    const [input] = option.mode.inputs;
+    if (!input) return option.name;
+    return presetValue(option, input) === undefined
+      ? inputValue(option, input)
+      : presetChoice(option, input);
+  };
+
+  const setInputValue = (option: ModeOption, name: string, value: string) =>
+    setInputValues({
+      ...inputValues,
+      [option.key]: {...inputValues[option.key], [name]: value},
+    });
+
+  const setPresetChoice = (option: ModeOption, name: string, label: string) =>
+    setPresetChoices({
+      ...presetChoices,
+      [option.key]: {...presetChoices[option.key], [name]: label},
+    });
+
+  // Server-side context caches are billed per hour, so drop the previous
+  // video's caches as soon as another one is loaded.
+  const releaseCurrentVideo = () => {
+    if (file?.uri) releaseVideoContextCache(file.uri);
+  };
+
+  const resetOutput = () => {
+    setActiveMode(null);
+    setResult(null);
+    setSegmentEntries(null);
+    setRequestError(null);
+  };
+
+  const jumpToTimecode = (secs: number) => {
+    if (!video) return;
+    video.currentTime = secs;
+    video.play();
+  };
+
+  const youtubeUrl = youtubeVideoId ? watchUrl(youtubeVideoId) : undefined;
+  // Names the source in exported timelines.
+  const videoName = file ? file.displayName || file.name : youtubeVideoId;
+
+  // Pre-flight token estimate for the selected mode, refreshed as the
+  // prompt is edited.
+  useEffect(() => {
+    setModeEstimate(null);
+    if (!hasVideo) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      estimateGenerateContentTokens(
+        buildPrompt(selectedOption),
+        file,
+        youtubeUrl,
+        controller.signal,
+      )
+        .then(setModeEstimate)
+        .catch((e) => {
+          if (!isAbortError(e)) console.warn('Could not count tokens', e);
+        });
+    }, 600);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    selectedMode,
+    customModes,
+    inputValues,
+    presetChoices,
+    file,
+    youtubeUrl,
+    transcript,
+  ]);
+
+  // Runs the tasks and updates their entries in segmentEntries, which
+  // holds every segment of the current run.
+  const runSegments = async (
+    tasks: BatchEntry['task'][],
+    onUpdate: (entries: BatchEntry[]) => void,
+  ) => {
+    setIsLoading(true);
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    try {
+      await runBatch(tasks, {
+        file,
+        youtubeUrl,
+        durationSecs,
+        signal: controller.signal,
+        onUpdate,
+      });
+    } catch (e) {
+      setRequestError((e as Error).message);
+    } finally {
+      requestControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const retrySegment = (index: number) =>
+    runSegments([segmentEntries[index].task], ([entry]) =>
+      setSegmentEntries((entries) =>
+        entries.map((existing, i) => (i === index ? entry : existing)),
+      ),
+    );
+
+  const onModeSelect = async (option: ModeOption) => {
+    if (!hasVideo || isLoading) return;
+    // Segments are sent separately, so only whole-video runs can overflow.
+    if (modeEstimate?.exceedsLimit && !isSegmented) {
+      setActiveMode(option);
+      setResult(null);
+      setSegmentEntries(null);
+      setRequestError(describeTokenOverflow(modeEstimate));
+      return;
+    }
+    setActiveMode(option);
+    setResult(null);
+    setSegmentEntries(null);
+    setRequestError(null);
+    setResultLabel(describeResult(option));
+
+    if (isSegmented) {
+      const tasks = segmentTasks(
+        {
+          key: option.key,
+          name: option.name,
+          mode: option.mode,
+          prompt: buildPrompt(option),
+          label: describeResult(option),
+        },
+        durationSecs,
+        segmentSecs,
+      );
+      await runSegments(tasks, setSegmentEntries);
+      return;
+    }
+
+    setIsLoading(true);
+    setPartialText('');
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+
+    try {
+      setResult(
+        await generateResult(
+          buildPrompt(option),
+          modeFunctions(option.mode),
+          file,
+          youtubeUrl,
+          controller.signal,
+          undefined,
+          durationSecs || undefined,
+          undefined,
+          setPartialText,
+        ),
+      );
+    } catch (e) {
+      if (isAbortError(e)) {
+        setActiveMode(null);
+      } else {
+        setRequestError((e as Error).message);
+      }
+    } finally {
+      requestControllerRef.current = null;
+      setIsLoading(false);
+      scrollRef.current?.scrollTo({top: 0});
+    }
+  };
+
+  const cancelRequest = () => requestControllerRef.current?.abort();
+
+  const cancelUpload = () => {
+    uploadControllerRef.current?.abort();
+  };
+
+  const uploadVideo = async (e: React.DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    const droppedFile = e.dataTransfer.files[0];
+    if (!droppedFile) return;
+
+    // A new drop replaces any upload that is still in flight.
+    uploadControllerRef.current?.abort();
+    const controller = new AbortController();
+    uploadControllerRef.current = controller;
+
+    releaseCurrentVideo();
+    resetOutput();
+    setYoutubeVideoId(null);
+    setYoutubePlaylist(null);
+    setTranscript(null);
+    setFile(null);
+    setVideoError(null);
+    setIsLoadingVideo(true);
+    setVidUrl(URL.createObjectURL(droppedFile));
+    setVideoMimeType(droppedFile.type);
+
+    try {
+      const res = await uploadFile(droppedFile, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (controller === uploadControllerRef.current) {
+            setUploadProgress(progress);
+          }
+        },
+      });
+      setFile(res);
+    } catch (err) {
+      if (controller !== uploadControllerRef.current) return;
+      if (!isAbortError(err)) {
+        setVideoError(`Error processing video: ${(err as Error).message}`);
+      }
+      setVidUrl(null);
+    } finally {
+      if (controller === uploadControllerRef.current) {
+        uploadControllerRef.current = null;
+        setIsLoadingVideo(false);
+        setUploadProgress(null);
+      }
+    }
+  };
+
+  const selectYoutubeVideo = (videoId: string, startSecs = 0) => {
+    releaseCurrentVideo();
+    resetOutput();
+    setFile(null);
+    setVidUrl(null);
+    setVideoError(null);
+    setYoutubeVideoId(videoId);
+    setYoutubeStartSecs(startSecs);
+    setTranscript(null);
+    // A playlist stays open while its own videos are picked from it.
+    if (!youtubePlaylist?.videos.some((video) => video.videoId === videoId)) {
+      setYoutubePlaylist(null);
+    }
+  };
+
+  // Lists the playlist's videos to pick from, and to batch over.
+  const loadYoutubePlaylist = async (playlistId: string) => {
+    setIsSearchingYoutube(true);
+    setYoutubeSearchError(null);
+    setYoutubeSearchResults([]);
+    try {
+      const videos = await listYoutubePlaylist(playlistId);
+      if (videos.length === 0) {
+        setYoutubeSearchError('No videos were found in that playlist.');
+        return;
+      }
+      setYoutubePlaylist({playlistId, videos});
+      setYoutubeSearchResults(videos);
+    } catch (err) {
+      setYoutubeSearchError((err as Error).message);
+    } finally {
+      setIsSearchingYoutube(false);
+    }
+  };
+
+  const onYoutubeUrlSubmit = () => {
+    const link = findYouTubeUrl(youtubeUrlInput);
+    if (!link) {
+      setVideoError('That does not look like a valid YouTube URL.');
+      return;
+    }
+    if (link.videoId) {
+      selectYoutubeVideo(link.videoId, link.startSecs);
+    } else {
+      setVideoError(null);
+    }
+    if (link.playlistId) {
+      loadYoutubePlaylist(link.playlistId);
+    }
+  };
+
+  const onYoutubeSearchSubmit = async () => {
+    const query = youtubeSearchQuery.trim();
+    if (!query) return;
+    setIsSearchingYoutube(true);
+    setYoutubeSearchError(null);
+    setYoutubeSearchResults([]);
+    try {
+      setYoutubeSearchResults(await searchYoutubeVideos(query));
+    } catch (err) {
+      setYoutubeSearchError((err as Error).message);
+    } finally {
+      setIsSearchingYoutube(false);
+    }
+  };
+
+  const renderSegments = () => (
+    <>
+      <ul className="segmentList">
+        {segmentEntries.map((entry, i) => (
+          <li key={entry.task.key} className={entry.status}>
+            <span className="segmentName">{entry.task.name}</span>
+            <span>{describeBatchStatus(entry)}</span>
+            {(entry.status === 'failed' || entry.status === 'cancelled') && (
+              <button
+                className="button"
+                disabled={isLoading}
+                onClick={() => retrySegment(i)}>
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {isLoading && (
+        <button className="button cancelButton" onClick={cancelRequest}>
+          Cancel
+        </button>
+      )}
+      {shownResult && (
+        <ResultView
+          result={shownResult}
+          mode={activeMode.mode}
+          label={resultLabel}
+          durationSecs={durationSecs || undefined}
+          videoName={videoName}
+          jumpToTimecode={jumpToTimecode}
+        />
+      )}
+    </>
+  );
+
+  const renderOutput = () => {
+    if (!activeMode) return null;
+    if (segmentEntries) return renderSegments();
+    if (isLoading) {
+      return (
+        <>
+          <div className="loading">
+            Waiting for model<span>...</span>
+            <button className="button cancelButton" onClick={cancelRequest}>
+              Cancel
+            </button>
+          </div>
+          {partialText && <p className="outputText">{partialText}</p>}
+        </>
+      );
+    }
+    if (requestError) {
+      return <p className="error-message">{requestError}</p>;
+    }
+    if (!result) return null;
+
+    return (
+      <ResultView
+        result={result}
+        mode={activeMode.mode}
+        label={resultLabel}
+        durationSecs={durationSecs || undefined}
+        videoName={videoName}
+        jumpToTimecode={jumpToTimecode}
+      />
+    );
+  };
+
+  return (
+    <main
+      className={`${theme} app-layout`}
+      onDrop={uploadVideo}
+      onDragOver={(e) => e.preventDefault()}>
+      <section className="video-section">
+        <div className="appToolbar">
+          <button className="button" onClick={() => setShowFileCache(true)}>
+            <span className="icon">folder_open</span> Uploaded files
+          </button>
+          <button className="button" onClick={() => setShowModeEditor(true)}>
+            <span className="icon">tune</span> Edit modes
+          </button>
+          <button
+            className="button"
+            disabled={!hasVideo}
+            onClick={() => setShowBatchRunner(true)}>
+            <span className="icon">summarize</span> Batch report
+          </button>
+          <button
+            className={`button ${transcript ? 'active' : ''}`}
+            disabled={!hasVideo}
+            onClick={() => setShowTranscriptEditor(true)}>
+            <span className="icon">subtitles</span> Transcript
+            {transcript && ` (${transcript.length})`}
+          </button>
+        </div>
+
+        <VideoPlayer
+          url={vidUrl}
+          video={video}
+          setVideo={setVideo}
+          youtubeVideoId={youtubeVideoId}
+          youtubeStartSecs={youtubeStartSecs}
+          youtubeUrlInput={youtubeUrlInput}
+          onYoutubeUrlChange={(e) => setYoutubeUrlInput(e.target.value)}
+          onYoutubeUrlSubmit={onYoutubeUrlSubmit}
+          isLoadingVideo={isLoadingVideo}
+          onCancelUpload={cancelUpload}
+          uploadProgress={uploadProgress}
+          videoError={videoError}
+          videoMimeType={videoMimeType}
+          youtubeSearchQuery={youtubeSearchQuery}
+          onYoutubeSearchQueryChange={(e) =>
+            setYoutubeSearchQuery(e.target.value)
+          }
+          onYoutubeSearchSubmit={onYoutubeSearchSubmit}
+          isSearchingYoutube={isSearchingYoutube}
+          youtubeSearchResults={youtubeSearchResults}
+          youtubeSearchError={youtubeSearchError}
+          onSelectSearchResult={selectYoutubeVideo}
+          chapters={
+            shownResult?.name === 'set_chapters' ? shownResult.timecodes : null
+          }
+          boxes={
+            shownResult?.name === 'set_timecodes_with_boxes'
+              ? shownResult.timecodes
+              : null
+          }
+          ranges={shownRanges}
+          captions={shownCaptions}
+        />
+
+        {hasVideo && (
+          <div className="tools">
+            <div className="modeSelector">
+              <div className="modeList">
+                {modeOptions.map((option) => (
+                  <button
+                    key={option.key}
+                    className={`button ${
+                      option.customModeId ? 'customMode' : ''
+                    } ${option.key === selectedOption.key ? 'active' : ''}`}
+                    onClick={() => setSelectedMode(option.key)}>
+                    <span className="emoji">{option.mode.emoji}</span>{' '}
+                    {option.name}
+                  </button>
+                ))}
+              </div>
+
+              {selectedOption.mode.inputs.map((input) => (
+                <React.Fragment key={input.name}>
+                  {input.presets && (
+                    <div className="modeList">
+                      {[...Object.keys(input.presets), CUSTOM_PRESET].map(
+                        (label) => (
+                          <button
+                            key={label}
+                            className={`button ${
+                              label === presetChoice(selectedOption, input)
+                                ? 'active'
+                                : ''
+                            }`}
+                            onClick={() =>
+                              setPresetChoice(selectedOption, input.name, label)
+                            }>
+                            {label}
+                          </button>
+                        ),
+                      )}
+                    </div>
+                  )}
+                  {typedInputs.includes(input) && (
+                    <textarea
+                      className={input.presets ? 'active' : ''}
+                      placeholder={`${input.label}...`}
+                      value={
+                        inputValues[selectedOption.key]?.[input.name] ?? ''
+                      }
+                      onChange={(e) =>
+                        setInputValue(
+                          selectedOption,
+                          input.name,
+                          e.target.value,
+                        )
+                      }
+                      onKeyDown={(e) => {
+                        if (
+                          typedInputs.length === 1 &&
+                          e.key === 'Enter' &&
+                          !e.shiftKey
+                        ) {
+                          e.preventDefault();
+                          if (!hasMissingInputs) onModeSelect(selectedOption);
+                        }
+                      }}
+                      rows={input.presets ? 2 : 3}
+                    />
+                  )}
+                </React.Fragment>
+              ))}
+
+              <div className="generateRow">
+                <button
+                  className="button generateButton"
+                  onClick={() => onModeSelect(selectedOption)}
+                  disabled={isLoading || hasMissingInputs}>
+                  ▶️ Generate
+                </button>
+                <select
+                  className="segmentSelect"
+                  value={segmentSecs ?? ''}
+                  onChange={(e) =>
+                    setSegmentSecs(Number(e.target.value) || null)
+                  }
+                  title="Split long videos into parts that are analyzed separately and merged">
+                  <option value="">Whole video</option>
+                  {SEGMENT_LENGTH_CHOICES.map((secs) => (
+                    <option key={secs} value={secs}>
+                      {secs / 60} min segments
+                    </option>
+                  ))}
+                </select>
+                {segmentSecs && youtubeVideoId && (
+                  <input
+                    className="segmentDuration"
+                    type="number"
+                    min="1"
+                    placeholder="Video length (min)"
+                    value={youtubeMinutes}
+                    onChange={(e) => setYoutubeMinutes(e.target.value)}
+                  />
+                )}
+                {modeEstimate && (
+                  <span
+                    className={`tokenEstimate ${
+                      modeEstimate.exceedsLimit ? 'overLimit' : ''
+                    }`}
+                    title={modeEstimate.breakdown
+                      .map(
+                        ({label, tokens}) =>
+                          `${label}: ${tokens.toLocaleString()}`,
+                      )
+                      .join('\n')}>
+                    {formatTokenEstimate(modeEstimate)}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="output" ref={scrollRef}>
+              {renderOutput()}
+            </div>
+          </div>
+        )}
+      </section>
+
+      {showFileCache && (
+        <FileCacheManager onClose={() => setShowFileCache(false)} />
+      )}
+
+      {showBatchRunner && hasVideo && (
+        <BatchRunner
+          modeOptions={modeOptions}
+          file={file}
+          youtubeUrl={youtubeUrl}
+          durationSecs={durationSecs || undefined}
+          videoName={videoName}
+          playlist={youtubePlaylist}
+          transcript={transcript}
+          jumpToTimecode={jumpToTimecode}
+          onClose={() => setShowBatchRunner(false)}
+        />
+      )}
+
+      {showTranscriptEditor && hasVideo && (
+        <TranscriptEditor
+          cues={transcript}
+          onChange={setTranscript}
+          onClose={() => setShowTranscriptEditor(false)}
+        />
+      )}
+
+      {showModeEditor && (
+        <ModeEditor
+          customModes={customModes}
+          initialModeId={selectedOption.customModeId}
+          onClose={() => setShowModeEditor(false)}
+        />
+      )}
+
+      <section className="chat-section">
+        <live-chat
+          videoContextFile={file}
+          videoElement={video}
+          transcript={transcript}></live-chat>
+      </section>
+    </main>
+  );
+}
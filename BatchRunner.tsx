@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {File as GenAIFile} from '@google/genai';
+import {useEffect, useRef, useState} from 'react';
+import {
+  BatchEntry,
+  batchTasks,
+  describeBatchStatus,
+  isBatchable,
+  playlistTasks,
+  runBatch,
+} from './batch';
+import {config} from './config';
+import {ModeOption} from './modes';
+import {BatchReport, buildReport, reportToHtml, reportToJson} from './report';
+import ResultView from './ResultView';
+import {Cue, withTranscript} from './subtitles';
+import {downloadFile} from './utils';
+import {playlistUrl, YouTubePlaylist} from './youtube';
+
+const CONCURRENCY_CHOICES = [1, 2, 3, 4];
+const ATTEMPT_CHOICES = [1, 2, 3, 5];
+
+const fileSlug = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^\w-]+/g, '-')
+    .slice(0, 60) || 'video';
+
+export default function BatchRunner({
+  modeOptions,
+  file,
+  youtubeUrl,
+  durationSecs,
+  videoName,
+  playlist,
+  transcript,
+  jumpToTimecode,
+  onClose,
+}: {
+  modeOptions: ModeOption[];
+  file: GenAIFile | null;
+  youtubeUrl?: string;
+  durationSecs?: number;
+  videoName?: string;
+  // The playlist the video was opened from, to run on all of its videos.
+  playlist?: YouTubePlaylist | null;
+  // Imported for this video, so not sent along for the rest of a playlist.
+  transcript?: Cue[] | null;
+  jumpToTimecode: (secs: number) => void;
+  onClose: () => void;
+}) {
+  const [selected, setSelected] = useState(
+    () =>
+      new Set(
+        modeOptions
+          .filter((option) => !option.customModeId && isBatchable(option))
+          .map(({key}) => key),
+      ),
+  );
+  const [concurrency, setConcurrency] = useState(2);
+  const [maxAttempts, setMaxAttempts] = useState(3);
+  const [wholePlaylist, setWholePlaylist] = useState(false);
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops a batch that is still running.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const onPlaylist = wholePlaylist && playlist?.videos.length > 0;
+  const video = onPlaylist
+    ? {
+        name: `playlist ${playlist.playlistId}`,
+        uri: playlistUrl(playlist.playlistId),
+      }
+    : file
+      ? {name: file.displayName || file.name, uri: file.uri}
+      : {name: youtubeUrl ?? 'video', uri: youtubeUrl};
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setReport(null);
+    const tasks = batchTasks(modeOptions.filter(({key}) => selected.has(key)));
+    const finished = await runBatch(
+      onPlaylist
+        ? playlistTasks(tasks, playlist.videos)
+        : tasks.map((task) => ({
+            ...task,
+            prompt: withTranscript(task.prompt, transcript),
+          })),
+      {
+        file,
+        youtubeUrl,
+        durationSecs,
+        concurrency,
+        maxAttempts,
+        signal: controller.signal,
+        onUpdate: setEntries,
+      },
+    );
+    controllerRef.current = null;
+    setIsRunning(false);
+    setReport(buildReport(finished, video, config.model));
+  };
+
+  const reset = () => {
+    setEntries([]);
+    setReport(null);
+  };
+
+  const exportReport = (format: 'html' | 'json') =>
+    downloadFile(
+      format === 'html' ? reportToHtml(report) : reportToJson(report),
+      `video-report-${fileSlug(video.name)}.${format}`,
+      format === 'html' ? 'text/html' : 'application/json',
+    );
+
+  const renderSetup = () => (
+    <>
+      <p className="hint">
+        Runs the selected modes against {video.name}. Modes with presets run
+        once per preset; modes that need typed input can't run in a batch.
+      </p>
+      <ul className="batchModeList">
+        {modeOptions.map((option) => (
+          <li key={option.key}>
+            <label className={isBatchable(option) ? '' : 'disabled'}>
+              <input
+                type="checkbox"
+                disabled={!isBatchable(option)}
+                checked={selected.has(option.key) && isBatchable(option)}
+                onChange={() => toggle(option.key)}
+              />
+              {option.mode.emoji} {option.name}
+              {!isBatchable(option) && ' (needs typed input)'}
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="modalActions">
+        {playlist?.videos.length > 0 && (
+          <label>
+            <input
+              type="checkbox"
+              checked={wholePlaylist}
+              onChange={(e) => setWholePlaylist(e.target.checked)}
+            />
+            Every video in the playlist ({playlist.videos.length})
+          </label>
+        )}
+        <label>
+          Parallel requests{' '}
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}>
+            {CONCURRENCY_CHOICES.map((n) => (
+              <option key={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Attempts per mode{' '}
+          <select
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(Number(e.target.value))}>
+            {ATTEMPT_CHOICES.map((n) => (
+              <option key={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          className="button generateButton"
+          disabled={selected.size === 0}
+          onClick={start}>
+          ▶️ Run batch
+        </button>
+      </div>
+    </>
+  );
+
+  const renderProgress = () => (
+    <table className="fileCacheTable">
+      <tbody>
+        {entries.map((entry, i) => (
+          <tr key={entry.task.key} className={`batchEntry ${entry.status}`}>
+            <td>
+              {entry.result ? (
+                <a href={`#batch-${i}`}>{entry.task.name}</a>
+              ) : (
+                entry.task.name
+              )}
+            </td>
+            <td>{describeBatchStatus(entry)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderReport = () =>
+    entries.map(
+      (entry, i) =>
+        entry.result && (
+          <section
+            key={entry.task.key}
+            id={`batch-${i}`}
+            className="batchSection output">
+            <h3>{entry.task.name}</h3>
+            <ResultView
+              result={entry.result}
+              mode={entry.task.mode}
+              label={entry.task.label}
+              durationSecs={entry.task.youtubeUrl ? undefined : durationSecs}
+              videoName={entry.task.youtubeUrl ? undefined : videoName}
+              jumpToTimecode={jumpToTimecode}
+            />
+          </section>
+        ),
+    );
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <h2>Batch report</h2>
+          <button onClick={onClose} aria-label="Close">
+            <span className="icon">close</span>
+          </button>
+        </div>
+
+        {entries.length === 0 ? (
+          renderSetup()
+        ) : (
+          <>
+            {renderProgress()}
+            <div className="modalActions">
+              {isRunning ? (
+                <button
+                  className="button"
+                  onClick={() => controllerRef.current?.abort()}>
+                  Cancel
+                </button>
+              ) : (
+                <>
+                  <button className="button" onClick={reset}>
+                    New batch
+                  </button>
+                  <button
+                    className="button"
+                    disabled={!report}
+                    onClick={() => exportReport('html')}>
+                    Export HTML
+                  </button>
+                  <button
+                    className="button"
+                    disabled={!report}
+                    onClick={() => exportReport('json')}>
+                    Export JSON
+                  </button>
+                </>
+              )}
+            </div>
+            {renderReport()}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,11 +21,13 @@ import {max, min} from 'd3-array';
 import {scaleBand, scaleLinear} from 'd3-scale';
 import {line} from 'd3-shape';
 import {useEffect, useRef, useState} from 'react';
-import {timeToSecs} from './utils';
+import {formatTimecode, timecodeToSecs} from './timecode';
 
 interface ChartDataPoint {
   time: string;
   value: number;
+  // Shown on the x axis instead of the time.
+  label?: string;
 }
 
 interface ChartProps {
@@ -43,7 +45,7 @@ export default function Chart({data, yLabel, jumpToTimecode}: ChartProps) {
   const yMax = height - margin;
   const xScale = scaleBand()
     .range([margin + 10, xMax])
-    .domain(data.map((d) => d.time))
+    .domain(data.map((_, i) => String(i)))
     .padding(0.2);
 
   const vals = data.map((d) => d.value);
@@ -55,7 +57,7 @@ export default function Chart({data, yLabel, jumpToTimecode}: ChartProps) {
   const yTicks = yScale.ticks(Math.floor(height / 70));
 
   const lineGen = line<ChartDataPoint>()
-    .x((d) => xScale(d.time) || 0)
+    .x((_, i) => xScale(String(i)) || 0)
     .y((d) => yScale(d.value));
 
   useEffect(() => {
@@ -90,14 +92,14 @@ export default function Chart({data, yLabel, jumpToTimecode}: ChartProps) {
       <g
         className="axisLabels timeLabels"
         transform={`translate(0 ${yMax + 40})`}>
-        {data.map(({time}, i) => {
+        {data.map(({time, label}, i) => {
           return (
             <text
               key={i}
-              x={xScale(time)}
+              x={xScale(String(i))}
               role="button"
-              onClick={() => jumpToTimecode(timeToSecs(time))}>
-              {time.length > 5 ? time.replace(/^00:/, '') : time}
+              onClick={() => jumpToTimecode(timecodeToSecs(time))}>
+              {label ?? formatTimecode(timecodeToSecs(time))}
             </text>
           );
         })}
@@ -108,8 +110,8 @@ export default function Chart({data, yLabel, jumpToTimecode}: ChartProps) {
       </g>
 
       <g>
-        {data.map(({time, value}, i) => {
-          const cx = xScale(time);
+        {data.map(({value}, i) => {
+          const cx = xScale(String(i));
           if (cx === undefined) return null;
           return (
             <g key={i} className="dataPoint">
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useCallback, useEffect, useState} from 'react';
+import {deleteFile} from './api';
+import {
+  CachedFile,
+  isExpired,
+  listCachedFiles,
+  removeCachedFile,
+} from './fileCache';
+
+const formatSize = (sizeBytes?: string) =>
+  `${(Number(sizeBytes ?? 0) / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatDate = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString() : 'unknown';
+
+export default function FileCacheManager({onClose}: {onClose: () => void}) {
+  const [entries, setEntries] = useState<CachedFile[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCachedFiles());
+    } catch (e) {
+      setError(`Could not read the file cache: ${(e as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const removeEntries = async (toRemove: CachedFile[]) => {
+    setIsBusy(true);
+    setError(null);
+    const failures: string[] = [];
+    try {
+      for (const entry of toRemove) {
+        try {
+          await deleteFile(entry.file.name);
+        } catch (e) {
+          // Files that already expired on the server can't be found anymore.
+          const message = (e as Error).message;
+          if (!/not found|404|permission/i.test(message)) {
+            failures.push(`${entry.file.displayName}: ${message}`);
+            continue;
+          }
+        }
+        await removeCachedFile(entry.hash);
+      }
+    } catch (e) {
+      failures.push((e as Error).message);
+    } finally {
+      if (failures.length > 0) {
+        setError(`Some files could not be deleted: ${failures.join('; ')}`);
+      }
+      await refresh();
+      setIsBusy(false);
+    }
+  };
+
+  const expired = entries.filter((entry) => isExpired(entry));
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <h2>Uploaded files</h2>
+          <button onClick={onClose} aria-label="Close">
+            <span className="icon">close</span>
+          </button>
+        </div>
+
+        {error && <p className="error-message">{error}</p>}
+
+        {entries.length === 0 ? (
+          <p>No uploads are cached yet.</p>
+        ) : (
+          <table className="fileCacheTable">
+            <thead>
+              <tr>
+                <th>File</th>
+                <th>Size</th>
+                <th>Last used</th>
+                <th>Expires</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr
+                  key={entry.hash}
+                  className={isExpired(entry) ? 'expired' : ''}>
+                  <td>{entry.file.displayName}</td>
+                  <td>{formatSize(entry.file.sizeBytes)}</td>
+                  <td>{formatDate(entry.lastUsedAt)}</td>
+                  <td>
+                    {isExpired(entry)
+                      ? 'Expired'
+                      : formatDate(entry.file.expirationTime)}
+                  </td>
+                  <td>
+                    <button
+                      className="button"
+                      disabled={isBusy}
+                      onClick={() => removeEntries([entry])}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="modalActions">
+          <button
+            className="button"
+            disabled={isBusy || expired.length === 0}
+            onClick={() => removeEntries(expired)}>
+            Delete {expired.length} expired
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -58,8 +58,7 @@ declare global {
 
 import {
   Content,
-  GoogleGenAI,
-  Chat,
+  GenerateContentConfig,
   Part,
   File as GenAIFile,
   FileState,
@@ -67,9 +66,36 @@ import {
 import {LitElement, css, html, nothing} from 'lit';
 import {customElement, state, query, property} from 'lit/decorators.js';
 import './Visual3D.js';
-import {getYouTubeVideoId} from './utils.js';
-import {uploadFile} from './api.js';
-import modes from './modes.js';
+import {delay, formatUploadProgress, isAbortError} from './utils.js';
+import {
+  countFileTokens,
+  countTokens,
+  createChat,
+  getVideoContextCache,
+  summarizeConversation,
+  uploadFile,
+  UploadProgress,
+} from './api.js';
+import {compactHistory, shouldCompactHistory} from './chatContext.js';
+import {config} from './config.js';
+import {
+  CustomMode,
+  customModeToMode,
+  loadCustomModes,
+  onCustomModesChange,
+} from './customModes.js';
+import type {ChatSession} from './provider.js';
+import {
+  describeTokenOverflow,
+  estimateTokens,
+  formatTokenEstimate,
+  TokenEstimate,
+  TokenSection,
+} from './tokens.js';
+import modes, {Mode, promptOutline} from './modes.js';
+import {Cue, transcriptContext} from './subtitles.js';
+import {formatTimecode} from './timecode.js';
+import {embedUrl, findYouTubeUrl, watchUrl, withoutUrl} from './youtube.js';
 
 const SpeechRecognition =
   window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -132,10 +158,21 @@ interface ManagedContent {
   };
   grounding?: GroundingChunk[];
   youtubeVideoId?: string | null;
+  // Where the embedded video starts, from the t= of the link.
+  youtubeStartSecs?: number;
   screenCaptures?: string[]; // array of dataUrls
   contextFilesUsed?: {name: string}[];
+  // Set on messages folded into a later history summary.
+  summarized?: boolean;
+  // Present on the marker shown where older turns were summarized.
+  summary?: {text: string; summarizedCount: number};
 }
 
+const isTokenLimitError = (e: unknown) =>
+  (e as Error)?.message
+    ?.toLowerCase()
+    .includes('exceeds the maximum number of tokens allowed');
+
 @customElement('live-chat')
 export class LiveChat extends LitElement {
   @property({attribute: false})
@@ -144,6 +181,10 @@ export class LiveChat extends LitElement {
   @property({attribute: false})
   videoElement: HTMLVideoElement | null = null;
 
+  // Captions imported for the video, sent once as context.
+  @property({attribute: false})
+  transcript: Cue[] | null = null;
+
   @state() isRecording = false;
   @state() isProcessing = false;
   @state() status = 'Click the mic or type to talk';
@@ -157,8 +198,15 @@ export class LiveChat extends LitElement {
   @state() private isSharingScreen = false;
   @state() private screenCaptures: {dataUrl: string}[] = [];
   @state()
-  private contextFiles: (GenAIFile & {isUploading?: boolean})[] = [];
+  private contextFiles: (GenAIFile & {
+    isUploading?: boolean;
+    uploadProgress?: UploadProgress;
+  })[] = [];
   @state() private isVideoContextSent = false;
+  @state() private isTranscriptSent = false;
+  @state() private tokenEstimate: TokenEstimate | null = null;
+  @state() private customModes: CustomMode[] = loadCustomModes();
+  private unsubscribeCustomModes: (() => void) | null = null;
 
   @query('#chat-container') private chatContainer: HTMLDivElement;
   @query('#file-upload-input') private fileUploadInput: HTMLInputElement;
@@ -166,10 +214,15 @@ export class LiveChat extends LitElement {
   @query('#context-upload-input') private contextUploadInput: HTMLInputElement;
   @query('#text-input') private textInput: HTMLTextAreaElement;
 
-  private client: GoogleGenAI;
-  private chat: Chat;
+  private chat: ChatSession;
   private recognition: SpeechRecognition;
   private screenStream: MediaStream | null = null;
+  private requestController: AbortController | null = null;
+  private tokenEstimateTimer: ReturnType<typeof setTimeout> | null = null;
+  private encodedFiles = new WeakMap<File, Promise<Part>>();
+  // Set once chat turns refer to a server-side cache holding the video.
+  private isVideoContextCached = false;
+  private uploadControllers = new Map<string, AbortController>();
   private screenShareVideoElement: HTMLVideoElement | null = null;
 
   private inputAudioContext = new (window.AudioContext ||
@@ -285,6 +338,31 @@ export class LiveChat extends LitElement {
       border-bottom-left-radius: 2px;
     }
 
+    .message.summarized {
+      opacity: 0.6;
+    }
+
+    .history-summary {
+      align-self: center;
+      max-width: 90%;
+      font-size: 0.85em;
+      color: #d1d5db;
+      background: rgba(255, 255, 255, 0.05);
+      border: 1px dashed #6b7280;
+      border-radius: 8px;
+      padding: 8px 12px;
+    }
+
+    .history-summary summary {
+      cursor: pointer;
+      color: #9ca3af;
+    }
+
+    .history-summary p {
+      margin: 8px 0 0;
+      white-space: pre-wrap;
+    }
+
     .sources {
       border-top: 1px solid #6b7280;
       padding-top: 8px;
@@ -488,6 +566,17 @@ export class LiveChat extends LitElement {
 
     .context-file-item.uploading {
       opacity: 0.6;
+      background: linear-gradient(
+        to right,
+        rgba(59, 130, 246, 0.4) var(--progress, 0%),
+        rgba(255, 255, 255, 0.1) var(--progress, 0%)
+      );
+    }
+
+    .context-file-item .upload-status {
+      font-size: 0.8em;
+      color: #d1d5db;
+      flex-shrink: 0;
     }
 
     .screen-capture-item img {
@@ -577,6 +666,17 @@ export class LiveChat extends LitElement {
       cursor: pointer;
     }
 
+    #token-estimate {
+      font-size: 0.8em;
+      color: #9ca3af;
+      text-align: right;
+      padding-right: 50px;
+    }
+
+    #token-estimate.over-limit {
+      color: #f87171;
+    }
+
     .prompt-starters {
       display: flex;
       flex-wrap: wrap;
@@ -599,6 +699,11 @@ export class LiveChat extends LitElement {
       background-color: #6b7280;
     }
 
+    .prompt-starter-button.custom {
+      background-color: transparent;
+      border: 1px dashed #6b7280;
+    }
+
     .prompt-starter-button:disabled {
       opacity: 0.5;
       cursor: not-allowed;
@@ -609,6 +714,7 @@ export class LiveChat extends LitElement {
   private readonly micIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path><path d="M19 10v2a7 7 0 0 1-14 0v-2"></path><line x1="12" y1="19" x2="12" y2="22"></line></svg>`;
   private readonly attachFileIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m21.44 11.05-9.19 9.19a6 6 0 0 1-8.49-8.49l8.57-8.57A4 4 0 1 1 18 8.84l-8.59 8.59a2 2 0 0 1-2.83-2.83l8.49-8.48"></path></svg>`;
   private readonly sendIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>`;
+  private readonly stopIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor" stroke="none"><rect x="6" y="6" width="12" height="12" rx="2"></rect></svg>`;
   private readonly speakerOnIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path></svg>`;
   private readonly speakerOffIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon><line x1="23" y1="1" x2="1" y2="23"></line><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path></svg>`;
   private readonly saveIcon = html`<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="17 21 17 13 7 13 7 21"></polyline><polyline points="7 3 7 8 15 8"></polyline></svg>`;
@@ -630,15 +736,20 @@ export class LiveChat extends LitElement {
   connectedCallback() {
     super.connectedCallback();
     try {
-      if (!process.env.API_KEY) {
-        throw new Error('API Key not found. Please set it.');
-      }
-      this.client = new GoogleGenAI({apiKey: process.env.API_KEY});
-      this.chat = this.client.chats.create({model: 'gemini-2.5-flash'});
+      this.chat = createChat();
     } catch (e) {
       this.error = (e as Error).message;
       console.error(e);
     }
+    this.unsubscribeCustomModes = onCustomModesChange((customModes) => {
+      this.customModes = customModes;
+    });
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribeCustomModes?.();
+    this.unsubscribeCustomModes = null;
   }
 
   private _initializeRecognition() {
@@ -795,19 +906,45 @@ export class LiveChat extends LitElement {
     this.screenCaptures = [];
   }
 
-  private async _sendMessageWithRetry(parts: Part[], config: any) {
+  /**
+   * Streams a chat turn, calling `onText` with the accumulated text after each
+   * chunk. If the stream fails part-way and is retried, `onText('')` is called
+   * first so partial text from the failed attempt is discarded, not repeated.
+   * The chat only records history once a stream completes, so a retry never
+   * duplicates the turn on the model side either.
+   */
+  private async _sendMessageWithRetry(
+    parts: Part[],
+    requestConfig: GenerateContentConfig,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+  ) {
     let retries = 3;
-    let delay = 1000; // Initial delay in ms
+    let retryDelay = 1000; // Initial delay in ms
     let lastError: Error | null = null;
 
     while (retries > 0) {
+      let text = '';
+      let grounding: GroundingChunk[] = [];
       try {
-        const response = await this.chat.sendMessage({
+        const stream = await this.chat.sendMessageStream({
           message: parts,
-          config: config,
+          config: {...requestConfig, abortSignal: signal},
         });
-        return response; // Success!
+        for await (const chunk of stream) {
+          if (chunk.text) {
+            text += chunk.text;
+            onText(text);
+          }
+          const chunkGrounding = chunk.candidates?.[0]?.groundingMetadata
+            ?.groundingChunks as GroundingChunk[] | undefined;
+          if (chunkGrounding?.length) {
+            grounding = chunkGrounding;
+          }
+        }
+        return {text, grounding}; // Success!
       } catch (e) {
+        if (isAbortError(e) || signal?.aborted) throw e;
         lastError = e as Error;
         const errorMessage = lastError.message.toLowerCase();
         const isRateLimit =
@@ -815,15 +952,25 @@ export class LiveChat extends LitElement {
           errorMessage.includes('resource_exhausted');
         const isServerError =
           errorMessage.includes('500') || errorMessage.includes('internal');
-
-        // Retry on rate limit or internal server errors
-        if (isRateLimit || isServerError) {
+        const isStreamInterrupted =
+          text.length > 0 &&
+          (errorMessage.includes('network') ||
+            errorMessage.includes('fetch') ||
+            errorMessage.includes('stream'));
+
+        // Retry on rate limit, internal server errors or a dropped stream
+        if (isRateLimit || isServerError || isStreamInterrupted) {
           retries--;
           if (retries > 0) {
-            const retryReason = isRateLimit ? 'Rate limit hit' : 'Server error';
-            this.status = `${retryReason}. Retrying in ${delay / 1000}s...`;
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            delay *= 2; // Exponential backoff
+            const retryReason = isRateLimit
+              ? 'Rate limit hit'
+              : isServerError
+                ? 'Server error'
+                : 'Connection lost';
+            this.status = `${retryReason}. Retrying in ${retryDelay / 1000}s...`;
+            onText('');
+            await delay(retryDelay, signal);
+            retryDelay *= 2; // Exponential backoff
           }
         } else {
           // Not a retriable error, fail fast
@@ -844,8 +991,11 @@ export class LiveChat extends LitElement {
     this.isProcessing = true;
     this.status = 'Thinking...';
     this.error = '';
+    const controller = new AbortController();
+    this.requestController = controller;
 
-    const youTubeVideoId = getYouTubeVideoId(promptText);
+    const youTubeLink = findYouTubeUrl(promptText);
+    const youTubeVideoId = youTubeLink?.videoId ?? null;
 
     // --- Prepare the request for the Gemini API ---
     const parts: Part[] = [];
@@ -886,8 +1036,21 @@ export class LiveChat extends LitElement {
         .join(', ')}) as context, `;
     }
 
-    // Add context from video analyzer
-    if (this.videoContextFile && !this.isVideoContextSent) {
+    // Add context from video analyzer. A server-side cache holds the video
+    // when possible, so it isn't resent (and billed in full) every turn.
+    let videoCache: string | null = null;
+    if (this.videoContextFile) {
+      this.status = 'Preparing video context...';
+      videoCache = await getVideoContextCache(this.videoContextFile);
+      this.status = 'Thinking...';
+    }
+    this.isVideoContextCached = !!videoCache;
+    if (videoCache) {
+      if (!this.isVideoContextSent) {
+        apiText = `Using the provided video as context, ${apiText}`;
+        sentVideoContext = true;
+      }
+    } else if (this.videoContextFile && !this.isVideoContextSent) {
       parts.push({
         fileData: {
           mimeType: this.videoContextFile.mimeType,
@@ -897,6 +1060,11 @@ export class LiveChat extends LitElement {
       apiText = `Using the provided video as context, ${apiText}`;
       sentVideoContext = true;
     }
+    const sendTranscript =
+      this.transcript?.length > 0 && !this.isTranscriptSent;
+    if (sendTranscript) {
+      parts.push({text: transcriptContext(this.transcript)});
+    }
 
     // Add file uploaded in chat
     if (file) {
@@ -912,6 +1080,7 @@ export class LiveChat extends LitElement {
         this.error = `Error processing file: ${(e as Error).message}`;
         this.isProcessing = false;
         this.status = 'Click the mic or type to talk';
+        this.requestController = null;
         throw e; // Propagate error up to _sendMessage
       }
     }
@@ -922,6 +1091,7 @@ export class LiveChat extends LitElement {
       text: promptText,
       file: filePreview,
       youtubeVideoId: youTubeVideoId,
+      youtubeStartSecs: youTubeLink?.startSecs,
       screenCaptures: screenCapturesForMessage.map((c) => c.dataUrl),
       contextFilesUsed: activeContextFiles.map((f) => ({
         name: f.displayName || 'file',
@@ -929,11 +1099,18 @@ export class LiveChat extends LitElement {
     };
     this.chatHistory = [...this.chatHistory, userMessage];
 
+    // Cached content can't be combined with tools in the same request.
     const useSearch =
-      !youTubeVideoId && parts.length === activeContextFiles.length;
+      !youTubeVideoId &&
+      !videoCache &&
+      parts.length === activeContextFiles.length;
 
     if (youTubeVideoId) {
-      apiText = `Please analyze this youtube video and answer my questions. The video is at this URL: ${promptText}`;
+      const question = withoutUrl(promptText, youTubeLink);
+      const startAt = youTubeLink.startSecs
+        ? ` Start at ${formatTimecode(youTubeLink.startSecs)} into the video.`
+        : '';
+      apiText = `Please analyze this youtube video and answer my questions. The video is at this URL: ${watchUrl(youTubeVideoId)}${startAt}${question ? `\n\n${question}` : ''}`;
     }
 
     if (parts.length > 0 && !apiText.trim()) {
@@ -941,36 +1118,88 @@ export class LiveChat extends LitElement {
     }
     parts.unshift({text: `${contextPrompt}${apiText}`});
 
-    const config: any = {};
+    const requestConfig: GenerateContentConfig = {};
     if (useSearch) {
-      config.tools = [{googleSearch: {}}];
+      requestConfig.tools = [{googleSearch: {}}];
+    }
+    if (videoCache) {
+      requestConfig.cachedContent = videoCache;
     }
 
+    // Placeholder model message that grows as the stream arrives.
+    const modelMessageIndex = this.chatHistory.length;
+    let modelMessageAdded = false;
+    let spokenLength = 0;
+    const updateModelMessage = (update: Partial<ManagedContent>) => {
+      const modelMessage: ManagedContent = {
+        ...(this.chatHistory[modelMessageIndex] ?? {role: 'model', text: ''}),
+        ...update,
+      };
+      this.chatHistory = [
+        ...this.chatHistory.slice(0, modelMessageIndex),
+        modelMessage,
+      ];
+      modelMessageAdded = true;
+    };
+
     try {
-      const response = await this._sendMessageWithRetry(parts, config);
+      const {text, grounding} = await this._sendMessageWithRetry(
+        parts,
+        requestConfig,
+        (partialText) => {
+          if (!partialText) {
+            // A retry discards the failed attempt, including queued speech.
+            if (spokenLength > 0) window.speechSynthesis?.cancel();
+            spokenLength = 0;
+            if (modelMessageAdded) {
+              this.chatHistory = this.chatHistory.slice(0, modelMessageIndex);
+              modelMessageAdded = false;
+            }
+            return;
+          }
+          this.status = 'Responding...';
+          if (this.isTtsEnabled) {
+            spokenLength = this._speakCompletedSentences(
+              partialText,
+              spokenLength,
+            );
+          }
+          updateModelMessage({text: partialText});
+        },
+        controller.signal,
+      );
 
       // ---- SUCCESS ----
-      const text = response.text;
-      const grounding =
-        (response.candidates?.[0]?.groundingMetadata
-          ?.groundingChunks as GroundingChunk[]) || [];
-
-      this.chatHistory = [
-        ...this.chatHistory,
-        {role: 'model', text, grounding},
-      ];
+      // Grounding metadata is only complete once the stream has ended.
+      updateModelMessage({text, grounding});
       if (sentVideoContext) {
         this.isVideoContextSent = true;
       }
+      if (sendTranscript) {
+        this.isTranscriptSent = true;
+      }
 
       // Clear inputs now that we've successfully sent
       this._clearFile();
       this._clearScreenCaptures();
 
       if (this.isTtsEnabled) {
-        await this._speak(text);
+        await this._queueSpeech(text.slice(spokenLength));
       }
     } catch (e) {
+      // Remove the user message (and any partial reply) since it failed.
+      // Screen captures and the typed text stay in the composer.
+      this.chatHistory = this.chatHistory.slice(
+        0,
+        modelMessageAdded ? -2 : -1,
+      );
+
+      if (isAbortError(e) || controller.signal.aborted) {
+        // ---- CANCELLED ----
+        window.speechSynthesis?.cancel();
+        throw e;
+      }
+
       // ---- FAILURE ----
       console.error(e);
       const errorMessage = (e as Error).message;
@@ -980,20 +1209,20 @@ export class LiveChat extends LitElement {
           .includes('exceeds the maximum number of tokens allowed')
       ) {
         this.error =
-          'Your request is too long. Please reduce text length, remove some files/captures, or start a new chat to reduce history size.';
+          'Your request is too long, even with earlier messages summarized. Please reduce text length or remove some files/captures.';
       } else if (errorMessage.toLowerCase().includes('api key not valid')) {
         this.error = 'The API key is invalid. Please check your configuration.';
       } else {
         this.error = errorMessage;
       }
 
-      // Remove the user message from history since it failed
-      this.chatHistory = this.chatHistory.slice(0, -1);
-
       throw e; // Propagate error so _sendMessage knows not to clear text input
     } finally {
       this.isProcessing = false;
-      this.status = 'Click the mic or type to talk';
+      this.status = controller.signal.aborted
+        ? 'Request cancelled.'
+        : 'Click the mic or type to talk';
+      this.requestController = null;
       if (filePreview?.url) {
         // Always clean up the object URL
         URL.revokeObjectURL(filePreview.url);
@@ -1001,25 +1230,205 @@ export class LiveChat extends LitElement {
     }
   }
 
+  private _cancelRequest() {
+    this.requestController?.abort();
+  }
+
+  /**
+   * Counts the tokens the pending message would send: its text, attachments,
+   * screen captures, context files, the video context and the chat history.
+   */
+  private async _estimatePendingTokens(): Promise<TokenEstimate> {
+    const userContent = (parts: Part[]): Content[] =>
+      parts.length ? [{role: 'user', parts}] : [];
+    const activeContextFiles = this.contextFiles.filter((f) => !f.isUploading);
+    // A cached video is referenced by every turn; an inline one only by the
+    // first, after which it is part of the history.
+    const includeVideo =
+      !!this.videoContextFile &&
+      (!this.isVideoContextSent || this.isVideoContextCached);
+
+    const sections: TokenSection[] = [
+      {
+        label: 'Message',
+        contents: userContent(
+          this.textInputValue.trim() ? [{text: this.textInputValue}] : [],
+        ),
+      },
+      {
+        label: 'Attachment',
+        contents: userContent(
+          this.promptFile
+            ? [await this._fileToGenerativePart(this.promptFile)]
+            : [],
+        ),
+      },
+      {
+        label: 'Screen captures',
+        contents: userContent(
+          this.screenCaptures.map((capture) => ({
+            inlineData: {
+              data: capture.dataUrl.split(',')[1],
+              mimeType: 'image/jpeg',
+            },
+          })),
+        ),
+      },
+      {
+        label: 'Context files',
+        contents: userContent(
+          activeContextFiles.map((f) => ({
+            fileData: {mimeType: f.mimeType, fileUri: f.uri},
+          })),
+        ),
+      },
+      ...(includeVideo
+        ? [{label: 'Video', tokens: countFileTokens(this.videoContextFile!)}]
+        : []),
+      {
+        label: 'Transcript',
+        contents: userContent(
+          this.transcript?.length > 0 && !this.isTranscriptSent
+            ? [{text: transcriptContext(this.transcript)}]
+            : [],
+        ),
+      },
+      {label: 'History', contents: this.chat?.getHistory() ?? []},
+    ];
+    return estimateTokens(config.model, sections, (contents) =>
+      countTokens(contents),
+    );
+  }
+
+  private _scheduleTokenEstimate() {
+    if (this.tokenEstimateTimer) clearTimeout(this.tokenEstimateTimer);
+    this.tokenEstimateTimer = setTimeout(async () => {
+      this.tokenEstimateTimer = null;
+      try {
+        this.tokenEstimate = await this._estimatePendingTokens();
+      } catch (e) {
+        console.warn('Could not count tokens', e);
+        this.tokenEstimate = null;
+      }
+    }, 600);
+  }
+
+  /**
+   * Folds older turns into a model-written summary and rebuilds the chat from
+   * the compacted history. The video exchange and recent turns stay verbatim;
+   * the UI keeps every message but marks the summarized ones. Returns false
+   * when there was nothing to compact.
+   */
+  private async _compactHistory(): Promise<boolean> {
+    const wasProcessing = this.isProcessing;
+    this.isProcessing = true;
+    this.status = 'Summarizing earlier messages...';
+    try {
+      const result = await compactHistory(this.chat.getHistory(), (transcript) =>
+        summarizeConversation(transcript),
+      );
+      if (!result) return false;
+
+      this.chat = createChat(result.history);
+
+      // UI messages (other than markers) line up with the turns counted in
+      // the result.
+      const messageIndexes = this.chatHistory
+        .map((message, i) => (message.summary ? -1 : i))
+        .filter((i) => i >= 0);
+      const firstRecent =
+        messageIndexes[messageIndexes.length - result.recentCount] ??
+        this.chatHistory.length;
+      const pinned = new Set(messageIndexes.slice(0, result.pinnedCount));
+      const marker: ManagedContent = {
+        role: 'model',
+        text: result.summary,
+        summary: {
+          text: result.summary,
+          summarizedCount: result.summarizedCount,
+        },
+      };
+      this.chatHistory = [
+        ...this.chatHistory
+          .slice(0, firstRecent)
+          .map((message, i) =>
+            pinned.has(i) ? message : {...message, summarized: true},
+          ),
+        marker,
+        ...this.chatHistory.slice(firstRecent),
+      ];
+      return true;
+    } finally {
+      this.isProcessing = wasProcessing;
+      this.status = 'Click the mic or type to talk';
+    }
+  }
+
+  // Compacts the history first when it has outgrown its share of the input
+  // limit, then checks the whole message against the limit.
+  private async _checkMessageFits(): Promise<boolean> {
+    let estimate = await this._estimatePendingTokens();
+    const historyTokens =
+      estimate.breakdown.find(({label}) => label === 'History')?.tokens ?? 0;
+    if (
+      estimate.exceedsLimit ||
+      (estimate.limit !== null &&
+        shouldCompactHistory(historyTokens, estimate.limit))
+    ) {
+      if (await this._compactHistory()) {
+        estimate = await this._estimatePendingTokens();
+      }
+    }
+    this.tokenEstimate = estimate;
+    if (estimate.exceedsLimit) {
+      this.error = describeTokenOverflow(estimate);
+      return false;
+    }
+    return true;
+  }
+
   private async _sendMessage() {
     const text = this.textInputValue.trim();
     if (!text && !this.promptFile && this.screenCaptures.length === 0) return;
 
+    // Check the size up front instead of waiting for the API to reject it.
     try {
-      await this._processPrompt(text, this.promptFile ?? undefined);
+      if (!(await this._checkMessageFits())) return;
+    } catch (e) {
+      console.warn('Could not count tokens before sending', e);
+    }
 
-      // It succeeded, so clear the text input.
-      // File/capture inputs were cleared inside _processPrompt.
-      this.textInputValue = '';
-      if (this.textInput) {
-        this.textInput.value = '';
-        this.textInput.style.height = 'auto';
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      try {
+        await this._processPrompt(text, this.promptFile ?? undefined);
+
+        // It succeeded, so clear the text input.
+        // File/capture inputs were cleared inside _processPrompt.
+        this.textInputValue = '';
+        if (this.textInput) {
+          this.textInput.value = '';
+          this.textInput.style.height = 'auto';
+        }
+        return;
+      } catch (e) {
+        // The estimate can miss; if the API still says the request is too
+        // long, summarize older turns and try once more.
+        if (attempt === 1 && isTokenLimitError(e)) {
+          const compacted = await this._compactHistory().catch((err) => {
+            console.error('Could not summarize history', err);
+            return false;
+          });
+          if (compacted) {
+            this.error = '';
+            continue;
+          }
+        }
+        // Error was already handled and displayed by _processPrompt.
+        // We just catch it here to prevent it from bubbling up further
+        // and to avoid clearing the text input.
+        console.log('Send message failed, text input preserved.');
+        return;
       }
-    } catch (e) {
-      // Error was already handled and displayed by _processPrompt.
-      // We just catch it here to prevent it from bubbling up further
-      // and to avoid clearing the text input.
-      console.log('Send message failed, text input preserved.');
     }
   }
 
@@ -1099,18 +1508,34 @@ export class LiveChat extends LitElement {
     this.contextFiles = [...this.contextFiles, placeholder];
     target.value = '';
 
+    const controller = new AbortController();
+    this.uploadControllers.set(tempId, controller);
     try {
-      const uploadedFile = await uploadFile(file);
+      const uploadedFile = await uploadFile(file, {
+        signal: controller.signal,
+        onProgress: (uploadProgress) => {
+          this.contextFiles = this.contextFiles.map((f) =>
+            f.name === tempId ? {...f, uploadProgress} : f,
+          );
+        },
+      });
       this.contextFiles = this.contextFiles.map((f) =>
         f.name === tempId ? uploadedFile : f,
       );
     } catch (err) {
-      this.error = `Failed to upload context file: ${(err as Error).message}`;
+      if (!isAbortError(err)) {
+        this.error = `Failed to upload context file: ${(err as Error).message}`;
+      }
       this.contextFiles = this.contextFiles.filter((f) => f.name !== tempId);
+    } finally {
+      this.uploadControllers.delete(tempId);
     }
   }
 
   private _removeContextFile(index: number) {
+    const removed = this.contextFiles[index];
+    // Removing a file that is still uploading cancels the upload.
+    this.uploadControllers.get(removed?.name ?? '')?.abort();
     this.contextFiles = this.contextFiles.filter((_, i) => i !== index);
   }
 
@@ -1148,10 +1573,7 @@ export class LiveChat extends LitElement {
           parts: [{text: msg.text}],
         }));
 
-        this.chat = this.client.chats.create({
-          model: 'gemini-2.5-flash',
-          history: geminiHistory,
-        });
+        this.chat = createChat(geminiHistory);
 
         this.error = '';
         this.status = 'Chat history loaded successfully.';
@@ -1177,7 +1599,19 @@ export class LiveChat extends LitElement {
     if (this.fileUploadInput) this.fileUploadInput.value = '';
   }
 
-  private async _fileToGenerativePart(file: File): Promise<Part> {
+  // The token estimate and the message both need the attachment, so each
+  // file is encoded once.
+  private _fileToGenerativePart(file: File): Promise<Part> {
+    let part = this.encodedFiles.get(file);
+    if (!part) {
+      part = this._encodeFile(file);
+      this.encodedFiles.set(file, part);
+      part.catch(() => this.encodedFiles.delete(file));
+    }
+    return part;
+  }
+
+  private async _encodeFile(file: File): Promise<Part> {
     const base64EncodedDataPromise = new Promise<string>((resolve) => {
       const reader = new FileReader();
       reader.onloadend = () =>
@@ -1193,6 +1627,36 @@ export class LiveChat extends LitElement {
   }
 
   private async _speak(text: string) {
+    if (!('speechSynthesis' in window)) return;
+    // Cancel any previously queued speech. This is important for responsiveness.
+    window.speechSynthesis.cancel();
+    await this._queueSpeech(text);
+  }
+
+  /**
+   * Queues every sentence of `text` after `from` that is already complete, so
+   * speech can start while a streamed reply is still arriving. Returns the
+   * offset up to which the text has been queued.
+   */
+  private _speakCompletedSentences(text: string, from: number): number {
+    const pending = text.slice(from);
+    const lastBoundary = Math.max(
+      ...['. ', '! ', '? ', '.\n', '!\n', '?\n', '\n\n'].map((boundary) =>
+        pending.lastIndexOf(boundary),
+      ),
+    );
+    if (lastBoundary < 0) return from;
+
+    const completed = pending.slice(0, lastBoundary + 1);
+    if (from === 0) {
+      this._speak(completed);
+    } else {
+      this._queueSpeech(completed);
+    }
+    return from + completed.length;
+  }
+
+  private async _queueSpeech(text: string) {
     if (
       !this.isTtsEnabled ||
       !('speechSynthesis' in window) ||
@@ -1215,9 +1679,6 @@ export class LiveChat extends LitElement {
     };
 
     try {
-      // Cancel any previously queued speech. This is important for responsiveness.
-      window.speechSynthesis.cancel();
-
       const voices = await getVoices();
       const englishVoice =
         voices.find(
@@ -1303,14 +1764,16 @@ export class LiveChat extends LitElement {
 
     this.error = '';
 
-    const serializableHistory = this.chatHistory.map((message) => ({
-      role: message.role,
-      text: message.text,
-      grounding: message.grounding,
-      file: message.file
-        ? {name: message.file.name, type: message.file.type}
-        : undefined,
-    }));
+    const serializableHistory = this.chatHistory
+      .filter((message) => !message.summary)
+      .map((message) => ({
+        role: message.role,
+        text: message.text,
+        grounding: message.grounding,
+        file: message.file
+          ? {name: message.file.name, type: message.file.type}
+          : undefined,
+      }));
 
     const historyJson = JSON.stringify(serializableHistory, null, 2);
     const blob = new Blob([historyJson], {type: 'application/json'});
@@ -1335,14 +1798,35 @@ export class LiveChat extends LitElement {
         this.textInput.value = this.textInputValue;
       }
     }
+    // The history changes with every streamed chunk, so it is only recounted
+    // once the response has finished.
+    if (
+      ['textInputValue', 'promptFile', 'screenCaptures', 'transcript'].some(
+        (key) => changedProperties.has(key),
+      ) ||
+      ((changedProperties.has('chatHistory') ||
+        changedProperties.has('isProcessing')) &&
+        !this.isProcessing) ||
+      (changedProperties.has('contextFiles') &&
+        this.contextFiles.every((f) => !f.isUploading))
+    ) {
+      this._scheduleTokenEstimate();
+    }
     if (changedProperties.has('videoContextFile')) {
       if (this.videoContextFile) {
         // New video context. Reset chat.
-        this.chat = this.client.chats.create({model: 'gemini-2.5-flash'});
+        this.chat = createChat();
         this.chatHistory = []; // Also clears UI
         this.isVideoContextSent = false;
       }
     }
+    // A new chat or an edited transcript gets it with the next message.
+    if (
+      changedProperties.has('videoContextFile') ||
+      changedProperties.has('transcript')
+    ) {
+      this.isTranscriptSent = false;
+    }
   }
 
   private _updateChatScroll() {
@@ -1360,26 +1844,44 @@ export class LiveChat extends LitElement {
     this._sendMessage();
   }
 
+  // Modes that take input are put in the input box for the user to fill in
+  // instead of being sent right away.
+  private _handleModeStarterClick(mode: Mode) {
+    if (this.isProcessing) return;
+    if (mode.inputs.length === 0) {
+      this._handlePromptStarterClick(mode.prompt({}));
+      return;
+    }
+    this.textInputValue = promptOutline(mode);
+  }
+
   private renderPromptStarters() {
     if (!this.videoContextFile) {
       return nothing;
     }
-    // Exclude modes that require custom input
-    const simpleModes = Object.entries(modes).filter(
-      ([key]) => key !== 'Chart' && key !== 'Custom',
-    );
+    const starters = [
+      ...Object.entries(modes).map(([name, mode]) => ({
+        name,
+        mode,
+        isCustom: false,
+      })),
+      ...this.customModes.map((customMode) => ({
+        name: customMode.name,
+        mode: customModeToMode(customMode),
+        isCustom: true,
+      })),
+    ];
 
     return html`
       <div class="prompt-starters">
-        ${simpleModes.map(
-          ([key, value]) => html`
+        ${starters.map(
+          ({name, mode, isCustom}) => html`
             <button
-              class="prompt-starter-button"
-              @click=${() =>
-                this._handlePromptStarterClick(value.prompt as string)}
+              class="prompt-starter-button ${isCustom ? 'custom' : ''}"
+              @click=${() => this._handleModeStarterClick(mode)}
               ?disabled=${this.isProcessing}
-              title=${value.prompt as string}>
-              ${value.emoji} ${key}
+              title=${promptOutline(mode)}>
+              ${mode.emoji} ${name}
             </button>
           `,
         )}
@@ -1387,17 +1889,41 @@ export class LiveChat extends LitElement {
     `;
   }
 
+  private renderSummaryMarker(message: ManagedContent) {
+    return html`
+      <details class="history-summary">
+        <summary>
+          ${message.summary!.summarizedCount} earlier messages were summarized
+          to keep the conversation within the model's limit
+        </summary>
+        <p>${message.summary!.text}</p>
+      </details>
+    `;
+  }
+
   private renderMessage(message: ManagedContent) {
+    if (message.summary) {
+      return this.renderSummaryMarker(message);
+    }
     const isUser = message.role === 'user';
     const textWithBreaks = message.text.replace(/\n/g, '<br>');
 
     return html`
-      <div class="message ${isUser ? 'user-message' : 'model-message'}">
+      <div
+        class="message ${isUser ? 'user-message' : 'model-message'} ${message.summarized
+          ? 'summarized'
+          : ''}"
+        title=${message.summarized
+          ? 'Included in the conversation summary below'
+          : nothing}>
         ${message.youtubeVideoId
           ? html`
               <div class="youtube-embed">
                 <iframe
-                  src="https://www.youtube.com/embed/${message.youtubeVideoId}"
+                  src=${embedUrl(
+                    message.youtubeVideoId,
+                    message.youtubeStartSecs,
+                  )}
                   frameborder="0"
                   allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
                   allowfullscreen></iframe>
@@ -1513,8 +2039,31 @@ export class LiveChat extends LitElement {
                       <div
                         class="context-file-item ${file.isUploading
                           ? 'uploading'
-                          : ''}">
+                          : ''}"
+                        style=${file.uploadProgress?.phase === 'uploading'
+                          ? `--progress: ${
+                              (file.uploadProgress.bytesSent /
+                                (file.uploadProgress.totalBytes || 1)) *
+                              100
+                            }%`
+                          : ''}
+                        title=${file.uploadProgress
+                          ? formatUploadProgress(file.uploadProgress)
+                          : file.displayName}>
                         <span>${file.displayName}</span>
+                        ${file.isUploading && file.uploadProgress
+                          ? html`<span class="upload-status"
+                              >${file.uploadProgress.phase === 'uploading'
+                                ? `${Math.floor(
+                                    (file.uploadProgress.bytesSent /
+                                      (file.uploadProgress.totalBytes || 1)) *
+                                      100,
+                                  )}%`
+                                : `${Math.round(
+                                    file.uploadProgress.elapsedMs / 1000,
+                                  )}s`}</span
+                            >`
+                          : nothing}
                         <button
                           class="preview-remove-button"
                           @click=${() => this._removeContextFile(index)}
@@ -1553,13 +2102,37 @@ export class LiveChat extends LitElement {
               @keydown=${this._handleTextKeydown}
               ?disabled=${this.isProcessing}
               rows="1"></textarea>
-            <button
-              class="icon-button send-button"
-              @click=${this._sendMessage}
-              ?disabled=${this.isProcessing || !hasContentToSend}>
-              ${this.sendIcon}
-            </button>
+            ${this.isProcessing
+              ? html`<button
+                  class="icon-button send-button"
+                  @click=${this._cancelRequest}
+                  title="Stop"
+                  aria-label="Stop">
+                  ${this.stopIcon}
+                </button>`
+              : html`<button
+                  class="icon-button send-button"
+                  @click=${this._sendMessage}
+                  ?disabled=${!hasContentToSend}>
+                  ${this.sendIcon}
+                </button>`}
           </div>
+          ${this.tokenEstimate && this.tokenEstimate.total > 0
+            ? html`<div
+                id="token-estimate"
+                class=${this.tokenEstimate.exceedsLimit ? 'over-limit' : ''}
+                title=${this.tokenEstimate.breakdown
+                  .map(
+                    ({label, tokens}) =>
+                      `${label}: ${tokens.toLocaleString()}`,
+                  )
+                  .join('\n')}>
+                ${formatTokenEstimate(this.tokenEstimate)}
+                ${this.tokenEstimate.exceedsLimit
+                  ? ` (over the ${this.tokenEstimate.limit.toLocaleString()} limit)`
+                  : nothing}
+              </div>`
+            : nothing}
         </div>
       </div>
       <div class="controls">
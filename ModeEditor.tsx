@@ -0,0 +1,380 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import React, {useRef, useState} from 'react';
+import {
+  createCustomMode,
+  CustomMode,
+  customModeFromBuiltIn,
+  duplicateCustomMode,
+  exportCustomModes,
+  mergeCustomModes,
+  parseCustomModes,
+  saveCustomModes,
+  SUB_MODE_VARIABLE,
+  templateVariables,
+  validateCustomMode,
+} from './customModes';
+import modes, {RENDERER_NAMES, RendererName, rendererResults} from './modes';
+import type {FunctionName} from './results';
+import {downloadFile} from './utils';
+
+// Sub-modes are edited as rows so labels can be renamed freely.
+interface Draft extends Omit<CustomMode, 'subModes'> {
+  subModes: {label: string; value: string}[];
+}
+
+const toDraft = (mode: CustomMode): Draft => ({
+  ...mode,
+  subModes: Object.entries(mode.subModes).map(([label, value]) => ({
+    label,
+    value,
+  })),
+});
+
+const fromDraft = (draft: Draft): CustomMode => ({
+  ...draft,
+  name: draft.name.trim(),
+  subModes: Object.fromEntries(
+    draft.subModes
+      .filter(({label}) => label.trim())
+      .map(({label, value}) => [label.trim(), value]),
+  ),
+});
+
+export default function ModeEditor({
+  customModes,
+  initialModeId,
+  onClose,
+}: {
+  customModes: CustomMode[];
+  initialModeId?: string | null;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft | null>(() => {
+    const mode = customModes.find(({id}) => id === initialModeId);
+    return mode ? toDraft(mode) : null;
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const editMode = (mode: CustomMode) => {
+    setDraft(toDraft(mode));
+    setError(null);
+    setNotice(null);
+  };
+
+  const updateDraft = (fields: Partial<Draft>) =>
+    setDraft((current) => ({...current, ...fields}));
+
+  const updateSubMode = (
+    index: number,
+    fields: Partial<Draft['subModes'][number]>,
+  ) =>
+    updateDraft({
+      subModes: draft.subModes.map((subMode, i) =>
+        i === index ? {...subMode, ...fields} : subMode,
+      ),
+    });
+
+  const saveDraft = () => {
+    const mode = fromDraft(draft);
+    const problems = validateCustomMode(mode);
+    const nameTaken =
+      mode.name in modes ||
+      customModes.some(
+        ({id, name}) =>
+          id !== mode.id && name.toLowerCase() === mode.name.toLowerCase(),
+      );
+    if (nameTaken) problems.push('another mode already has this name');
+    if (problems.length > 0) {
+      setError(`Can't save: ${problems.join(', ')}.`);
+      return;
+    }
+    const exists = customModes.some(({id}) => id === mode.id);
+    saveCustomModes(
+      exists
+        ? customModes.map((existing) =>
+            existing.id === mode.id ? mode : existing,
+          )
+        : [...customModes, mode],
+    );
+    setDraft(null);
+    setError(null);
+    setNotice(`Saved "${mode.name}".`);
+  };
+
+  const deleteMode = (mode: CustomMode) => {
+    if (!window.confirm(`Delete the mode "${mode.name}"?`)) return;
+    saveCustomModes(customModes.filter(({id}) => id !== mode.id));
+    if (draft?.id === mode.id) setDraft(null);
+  };
+
+  const importModes = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseCustomModes(await file.text());
+      saveCustomModes(mergeCustomModes(customModes, imported));
+      setError(null);
+      setNotice(`Imported ${imported.length} mode(s) from ${file.name}.`);
+    } catch (err) {
+      setNotice(null);
+      setError(`Import failed: ${(err as Error).message}`);
+    }
+  };
+
+  const variables = draft ? templateVariables(draft.template) : [];
+
+  const renderModeRow = (
+    key: string,
+    label: string,
+    actions: React.ReactNode,
+  ) => (
+    <li key={key}>
+      <span>{label}</span>
+      <span className="modeEditorActions">{actions}</span>
+    </li>
+  );
+
+  const renderDraft = () => (
+    <div className="modeForm">
+      <div className="modeFormRow">
+        <label>
+          Emoji
+          <input
+            className="emojiInput"
+            value={draft.emoji}
+            onChange={(e) => updateDraft({emoji: e.target.value})}
+          />
+        </label>
+        <label className="grow">
+          Name
+          <input
+            value={draft.name}
+            onChange={(e) => updateDraft({name: e.target.value})}
+            placeholder="e.g. Product mentions"
+          />
+        </label>
+      </div>
+
+      <label>
+        Prompt template
+        <textarea
+          rows={6}
+          value={draft.template}
+          onChange={(e) => updateDraft({template: e.target.value})}
+          placeholder="List every product shown in this video. Focus on {{brand}}."
+        />
+      </label>
+      <p className="hint">
+        Write <code>{'{{name}}'}</code> for a value to fill in when the mode
+        runs; sub-modes fill in <code>{`{{${SUB_MODE_VARIABLE}}}`}</code>.
+        Variables:{' '}
+        {variables.length > 0
+          ? variables.map((variable) => <code key={variable}>{variable} </code>)
+          : 'none'}
+      </p>
+
+      <div className="modeFormRow">
+        <label>
+          Function
+          <select
+            value={draft.functionName ?? ''}
+            onChange={(e) =>
+              updateDraft({
+                functionName: (e.target.value || null) as FunctionName | null,
+              })
+            }>
+            <option value="">Any (model chooses)</option>
+            {rendererResults[draft.renderer].map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Show results as
+          <select
+            value={draft.renderer}
+            onChange={(e) => {
+              const renderer = e.target.value as RendererName;
+              updateDraft({
+                renderer,
+                // Keep the function only if the new renderer can display it.
+                functionName: rendererResults[renderer].includes(
+                  draft.functionName,
+                )
+                  ? draft.functionName
+                  : null,
+              });
+            }}>
+            {RENDERER_NAMES.map((renderer) => (
+              <option key={renderer} value={renderer}>
+                {renderer}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset>
+        <legend>Sub-modes</legend>
+        {draft.subModes.length > 0 &&
+          !variables.includes(SUB_MODE_VARIABLE) && (
+            <p className="hint">
+              Add <code>{`{{${SUB_MODE_VARIABLE}}}`}</code> to the template for
+              sub-modes to have an effect.
+            </p>
+          )}
+        {draft.subModes.map((subMode, i) => (
+          <div className="subModeRow" key={i}>
+            <input
+              value={subMode.label}
+              onChange={(e) => updateSubMode(i, {label: e.target.value})}
+              placeholder="Label"
+            />
+            <input
+              className="grow"
+              value={subMode.value}
+              onChange={(e) => updateSubMode(i, {value: e.target.value})}
+              placeholder={`Text for {{${SUB_MODE_VARIABLE}}}`}
+            />
+            <button
+              className="button"
+              aria-label="Remove sub-mode"
+              onClick={() =>
+                updateDraft({
+                  subModes: draft.subModes.filter((_, j) => j !== i),
+                })
+              }>
+              <span className="icon">delete</span>
+            </button>
+          </div>
+        ))}
+        <button
+          className="button"
+          onClick={() =>
+            updateDraft({subModes: [...draft.subModes, {label: '', value: ''}]})
+          }>
+          Add sub-mode
+        </button>
+      </fieldset>
+
+      <div className="modalActions">
+        <button className="button" onClick={() => setDraft(null)}>
+          Cancel
+        </button>
+        <button className="button generateButton" onClick={saveDraft}>
+          Save mode
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <h2>Modes</h2>
+          <div className="modeEditorActions">
+            <button
+              className="button"
+              onClick={() => editMode(createCustomMode())}>
+              New
+            </button>
+            <button
+              className="button"
+              onClick={() => importInputRef.current?.click()}>
+              Import JSON
+            </button>
+            <button
+              className="button"
+              disabled={customModes.length === 0}
+              onClick={() =>
+                downloadFile(
+                  exportCustomModes(customModes),
+                  'video-analyzer-modes.json',
+                  'application/json',
+                )
+              }>
+              Export JSON
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={importModes}
+            />
+            <button onClick={onClose} aria-label="Close">
+              <span className="icon">close</span>
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="error-message">{error}</p>}
+        {notice && <p className="hint">{notice}</p>}
+
+        {draft ? (
+          renderDraft()
+        ) : (
+          <>
+            <h3>Your modes</h3>
+            {customModes.length === 0 ? (
+              <p className="hint">
+                No custom modes yet. Create one, or duplicate a built-in mode to
+                start from its prompt.
+              </p>
+            ) : (
+              <ul className="modeEditorList">
+                {customModes.map((mode) =>
+                  renderModeRow(
+                    mode.id,
+                    `${mode.emoji} ${mode.name}`,
+                    <>
+                      <button className="button" onClick={() => editMode(mode)}>
+                        Edit
+                      </button>
+                      <button
+                        className="button"
+                        onClick={() => editMode(duplicateCustomMode(mode))}>
+                        Duplicate
+                      </button>
+                      <button
+                        className="button"
+                        onClick={() => deleteMode(mode)}>
+                        Delete
+                      </button>
+                    </>,
+                  ),
+                )}
+              </ul>
+            )}
+
+            <h3>Built-in modes</h3>
+            <ul className="modeEditorList">
+              {Object.entries(modes).map(([name, mode]) =>
+                renderModeRow(
+                  name,
+                  `${mode.emoji} ${name}`,
+                  <button
+                    className="button"
+                    onClick={() => editMode(customModeFromBuiltIn(name, mode))}>
+                    Duplicate
+                  </button>,
+                ),
+              )}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import React, {useState} from 'react';
+import {
+  chapterRanges,
+  toFfmetadata,
+  toWebVttChapters,
+  toYouTubeDescription,
+} from './chapters';
+import Chart from './Chart';
+import {Mode, RendererName, rendererFor} from './modes';
+import {
+  DEFAULT_FPS,
+  NLE_FPS_CHOICES,
+  resultMarkers,
+  toEdl,
+  toFcpxml,
+  toOtio,
+} from './nle';
+import {
+  Chapter,
+  FunctionResult,
+  GenerateResult,
+  NumericTimecode,
+  ObjectBox,
+  Timecode,
+  TimecodeWithObjects,
+  TranscriptSegment,
+} from './results';
+import {subtitleCues, toSrt, toVtt} from './subtitles';
+import {formatTimecode, timecodeToSecs} from './timecode';
+import TranscriptView from './TranscriptView';
+import {downloadFile} from './utils';
+
+interface RendererProps {
+  result: FunctionResult;
+  label: string;
+  // Length of the video, when known.
+  durationSecs?: number;
+  jumpToTimecode: (secs: number) => void;
+}
+
+function TimecodeButton({
+  time,
+  end,
+  jumpToTimecode,
+}: {
+  time: string;
+  end?: string;
+  jumpToTimecode: (secs: number) => void;
+}) {
+  return (
+    <time role="button" onClick={() => jumpToTimecode(timecodeToSecs(time))}>
+      {end ? `${time}–${end}` : time}
+    </time>
+  );
+}
+
+// Subtitle files with a cue for every entry.
+function SubtitleExports({
+  result,
+  durationSecs,
+}: {
+  result: FunctionResult;
+  durationSecs?: number;
+}) {
+  const cues = subtitleCues(result, durationSecs);
+  if (cues.length === 0) return null;
+  return (
+    <div className="resultExports">
+      <button
+        className="button"
+        onClick={() =>
+          downloadFile(toSrt(cues), 'subtitles.srt', 'application/x-subrip')
+        }>
+        SRT
+      </button>
+      <button
+        className="button"
+        onClick={() => downloadFile(toVtt(cues), 'subtitles.vtt', 'text/vtt')}>
+        WebVTT
+      </button>
+    </div>
+  );
+}
+
+// Markers for editing software, timed in frames at the chosen rate.
+function NleExports({
+  result,
+  durationSecs,
+  videoName = 'video',
+}: {
+  result: FunctionResult;
+  durationSecs?: number;
+  videoName?: string;
+}) {
+  const [fps, setFps] = useState(DEFAULT_FPS);
+  const markers = resultMarkers(result);
+  if (markers.length === 0) return null;
+  const options = {fps, reel: videoName, durationSecs};
+  const baseName = videoName.replace(/\.[^.]+$/, '');
+  return (
+    <div className="resultExports">
+      <select
+        value={fps}
+        onChange={(e) => setFps(Number(e.target.value))}
+        title="Frame rate of the exported timeline">
+        {NLE_FPS_CHOICES.map((choice) => (
+          <option key={choice} value={choice}>
+            {choice} fps
+          </option>
+        ))}
+      </select>
+      <button
+        className="button"
+        onClick={() =>
+          downloadFile(toEdl(markers, options), `${baseName}.edl`, 'text/plain')
+        }>
+        EDL
+      </button>
+      <button
+        className="button"
+        onClick={() =>
+          downloadFile(
+            toFcpxml(markers, options),
+            `${baseName}.fcpxml`,
+            'application/xml',
+          )
+        }>
+        FCPXML
+      </button>
+      <button
+        className="button"
+        onClick={() =>
+          downloadFile(
+            toOtio(markers, options),
+            `${baseName}.otio`,
+            'application/json',
+          )
+        }>
+        OTIO
+      </button>
+    </div>
+  );
+}
+
+// rendererFor only picks a renderer for results it accepts (see
+// rendererResults in modes.ts), so each one can narrow the timecodes.
+const renderers: Record<RendererName, (props: RendererProps) => React.ReactNode> =
+  {
+    prose: ({result, jumpToTimecode}) => (
+      <p className="outputText">
+        {(result.timecodes as Timecode[]).map(({time, text}, i) => (
+          <span key={i} className="sentence">
+            <TimecodeButton time={time} jumpToTimecode={jumpToTimecode} />{' '}
+            <span>{text}</span>{' '}
+          </span>
+        ))}
+      </p>
+    ),
+
+    list: ({result, jumpToTimecode}) => (
+      <ul>
+        {(result.timecodes as Timecode[]).map(({time, end, text}, i) => (
+          <li key={i} className="outputItem">
+            <TimecodeButton
+              time={time}
+              end={end}
+              jumpToTimecode={jumpToTimecode}
+            />
+            <p className="text">{text}</p>
+          </li>
+        ))}
+      </ul>
+    ),
+
+    table: ({result, jumpToTimecode}) => (
+      <table>
+        <thead>
+          <tr>
+            <th>Time</th>
+            <th>Description</th>
+            <th>Objects</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(result.timecodes as TimecodeWithObjects[]).map(
+            ({time, end, text, objects}, i) => (
+              <tr key={i}>
+                <td>
+                  <TimecodeButton
+                    time={time}
+                    end={end}
+                    jumpToTimecode={jumpToTimecode}
+                  />
+                </td>
+                <td>{text}</td>
+                <td>{objects.join(', ')}</td>
+              </tr>
+            ),
+          )}
+        </tbody>
+      </table>
+    ),
+
+    chart: ({result, label, jumpToTimecode}) => (
+      <Chart
+        data={result.timecodes as NumericTimecode[]}
+        yLabel={label}
+        jumpToTimecode={jumpToTimecode}
+      />
+    ),
+
+    chapters: ({result, durationSecs, jumpToTimecode}) => {
+      const chapters = result.timecodes as Chapter[];
+      const ranges = chapterRanges(chapters, durationSecs);
+      const withHours = ranges.some(({endSecs}) => endSecs >= 3600);
+      return (
+        <>
+          <ol className="chapterList">
+            {ranges.map(({title, startSecs, endSecs}, i) => (
+              <li key={i} className="outputItem">
+                <TimecodeButton
+                  time={chapters[i].time}
+                  jumpToTimecode={jumpToTimecode}
+                />
+                <p className="text">
+                  {title}{' '}
+                  <span className="chapterLength">
+                    until {formatTimecode(endSecs, {withHours})}
+                  </span>
+                </p>
+              </li>
+            ))}
+          </ol>
+          <div className="resultExports">
+            <button
+              className="button"
+              onClick={() =>
+                navigator.clipboard.writeText(
+                  toYouTubeDescription(chapters, durationSecs),
+                )
+              }>
+              Copy for YouTube
+            </button>
+            <button
+              className="button"
+              onClick={() =>
+                downloadFile(
+                  toWebVttChapters(chapters, durationSecs),
+                  'chapters.vtt',
+                  'text/vtt',
+                )
+              }>
+              WebVTT
+            </button>
+            <button
+              className="button"
+              onClick={() =>
+                downloadFile(
+                  toFfmetadata(chapters, durationSecs),
+                  'chapters.txt',
+                  'text/plain',
+                )
+              }>
+              ffmetadata
+            </button>
+          </div>
+        </>
+      );
+    },
+
+    boxes: ({result, jumpToTimecode}) => {
+      // Objects found at the same moment share a row.
+      const byTime = new Map<string, string[]>();
+      (result.timecodes as ObjectBox[]).forEach(({time, label}) =>
+        byTime.set(time, [...(byTime.get(time) ?? []), label]),
+      );
+      return (
+        <ul>
+          {[...byTime].map(([time, labels]) => (
+            <li key={time} className="outputItem">
+              <TimecodeButton time={time} jumpToTimecode={jumpToTimecode} />
+              <p className="text">{labels.join(', ')}</p>
+            </li>
+          ))}
+        </ul>
+      );
+    },
+
+    transcript: ({result, jumpToTimecode}) => (
+      <TranscriptView
+        segments={result.timecodes as TranscriptSegment[]}
+        jumpToTimecode={jumpToTimecode}
+      />
+    ),
+  };
+
+// Displays a mode's result with the renderer the mode declares.
+export default function ResultView({
+  result,
+  mode,
+  label,
+  durationSecs,
+  videoName,
+  jumpToTimecode,
+}: {
+  result: GenerateResult;
+  mode: Mode;
+  label: string;
+  durationSecs?: number;
+  // The original file name, for the reel of exported timelines.
+  videoName?: string;
+  jumpToTimecode: (secs: number) => void;
+}) {
+  if (result.name === 'text') {
+    return <p className="outputText">{result.text}</p>;
+  }
+  const Renderer = renderers[rendererFor(mode, result.name)];
+  return (
+    <>
+      <Renderer
+        result={result}
+        label={label}
+        durationSecs={durationSecs}
+        jumpToTimecode={jumpToTimecode}
+      />
+      {(result.name === 'set_timecodes' ||
+        result.name === 'set_timecodes_with_objects') && (
+        <SubtitleExports result={result} durationSecs={durationSecs} />
+      )}
+      <NleExports
+        result={result}
+        durationSecs={durationSecs}
+        videoName={videoName}
+      />
+    </>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import React, {useState} from 'react';
+import {Cue, parseSubtitles, toSrt, toVtt} from './subtitles';
+import {normalizeTimecode, parseTimecode} from './timecode';
+import {downloadFile} from './utils';
+
+// Imports captions or a transcript for the video and lets the user correct
+// them. The lines are sent with the video as context, see transcriptContext.
+export default function TranscriptEditor({
+  cues,
+  onChange,
+  onClose,
+}: {
+  cues: Cue[] | null;
+  onChange: (cues: Cue[] | null) => void;
+  onClose: () => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseSubtitles(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const updateCue = (index: number, fields: Partial<Cue>) =>
+    onChange(
+      cues
+        .map((cue, i) => (i === index ? {...cue, ...fields} : cue))
+        .sort((a, b) => a.startSecs - b.startSecs),
+    );
+
+  // Times are only read when a field loses focus, so they can be typed in
+  // any form parseTimecode accepts.
+  const updateTime = (
+    index: number,
+    field: 'startSecs' | 'endSecs',
+    input: HTMLInputElement,
+  ) => {
+    const parsed = parseTimecode(input.value);
+    if (parsed.ok === false) {
+      setError(`Line ${index + 1}: ${parsed.error}`);
+      input.value = normalizeTimecode(cues[index][field]);
+      return;
+    }
+    setError(null);
+    updateCue(index, {[field]: parsed.secs});
+  };
+
+  const removeCue = (index: number) => {
+    const rest = cues.filter((_, i) => i !== index);
+    onChange(rest.length > 0 ? rest : null);
+  };
+
+  return (
+    <div className="modalOverlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modalHeader">
+          <h2>Transcript</h2>
+          <button onClick={onClose} aria-label="Close">
+            <span className="icon">close</span>
+          </button>
+        </div>
+
+        <p className="hint">
+          Import SRT, WebVTT or a plain transcript with a time at the start of
+          each line. It is sent with the video to every mode and to the chat, so
+          the model doesn't have to work out the speech itself.
+        </p>
+
+        {error && <p className="error-message">{error}</p>}
+
+        {cues && (
+          <table className="fileCacheTable transcriptEditor">
+            <thead>
+              <tr>
+                <th>Start</th>
+                <th>End</th>
+                <th>Text</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {cues.map(({startSecs, endSecs, text}, i) => (
+                <tr key={i}>
+                  <td>
+                    <input
+                      key={startSecs}
+                      type="text"
+                      defaultValue={normalizeTimecode(startSecs)}
+                      onBlur={(e) => updateTime(i, 'startSecs', e.target)}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      key={endSecs}
+                      type="text"
+                      defaultValue={normalizeTimecode(endSecs)}
+                      onBlur={(e) => updateTime(i, 'endSecs', e.target)}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={text}
+                      onChange={(e) => updateCue(i, {text: e.target.value})}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      onClick={() => removeCue(i)}
+                      aria-label="Delete line">
+                      <span className="icon">delete</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="modalActions">
+          <label className="button">
+            {cues ? 'Replace from file' : 'Import file'}
+            <input
+              type="file"
+              accept=".srt,.vtt,.txt,text/vtt,text/plain"
+              onChange={importFile}
+              hidden
+            />
+          </label>
+          {cues && (
+            <>
+              <button
+                className="button"
+                onClick={() =>
+                  downloadFile(
+                    toSrt(cues),
+                    'transcript.srt',
+                    'application/x-subrip',
+                  )
+                }>
+                Export SRT
+              </button>
+              <button
+                className="button"
+                onClick={() =>
+                  downloadFile(toVtt(cues), 'transcript.vtt', 'text/vtt')
+                }>
+                Export WebVTT
+              </button>
+              <button className="button" onClick={() => onChange(null)}>
+                Remove
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
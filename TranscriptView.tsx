@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {useState} from 'react';
+import Chart from './Chart';
+import type {TranscriptSegment} from './results';
+import {
+  renameSpeakers,
+  speakerNames,
+  talkTime,
+  toScript,
+  toSrt,
+  toVtt,
+} from './transcript';
+import {timecodeToSecs} from './timecode';
+import {downloadFile} from './utils';
+
+export default function TranscriptView({
+  segments,
+  jumpToTimecode,
+}: {
+  segments: TranscriptSegment[];
+  jumpToTimecode: (secs: number) => void;
+}) {
+  // New names keyed by the speaker labels in the result.
+  const [names, setNames] = useState<Record<string, string>>({});
+  const renamed = renameSpeakers(segments, names);
+
+  return (
+    <div className="transcript">
+      <div className="speakerNames">
+        {speakerNames(segments).map((speaker) => (
+          <label key={speaker}>
+            {speaker}
+            <input
+              type="text"
+              placeholder={speaker}
+              value={names[speaker] ?? ''}
+              onChange={(e) => setNames({...names, [speaker]: e.target.value})}
+            />
+          </label>
+        ))}
+      </div>
+
+      <ul>
+        {renamed.map(({time, end, speaker, text}, i) => (
+          <li key={i} className="outputItem">
+            <time
+              role="button"
+              onClick={() => jumpToTimecode(timecodeToSecs(time))}>
+              {time}
+            </time>
+            <p className="text">
+              <span className="speaker">{speaker}</span> {text}
+              <span className="segmentEnd"> until {end}</span>
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      <div className="resultExports">
+        <button
+          className="button"
+          onClick={() =>
+            downloadFile(
+              toSrt(renamed),
+              'transcript.srt',
+              'application/x-subrip',
+            )
+          }>
+          SRT
+        </button>
+        <button
+          className="button"
+          onClick={() =>
+            downloadFile(toVtt(renamed), 'transcript.vtt', 'text/vtt')
+          }>
+          WebVTT
+        </button>
+        <button
+          className="button"
+          onClick={() =>
+            downloadFile(toScript(renamed), 'transcript.txt', 'text/plain')
+          }>
+          Script
+        </button>
+      </div>
+
+      <Chart
+        data={talkTime(renamed)}
+        yLabel="Talk time (seconds)"
+        jumpToTimecode={jumpToTimecode}
+      />
+    </div>
+  );
+}
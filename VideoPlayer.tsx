@@ -18,11 +18,33 @@
 // limitations under the License.
 
 import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {chapterAt, chapterRanges} from './chapters';
+import type {Chapter, ObjectBox} from './results';
+import {Cue, cueAt, srtToVtt, toVtt} from './subtitles';
+import {formatTimecode, timecodeToSecs} from './timecode';
+import type {UploadProgress} from './upload';
+import {formatUploadProgress} from './utils';
+import {embedUrl} from './youtube';
 
-const formatTime = (t: number) =>
-  `${Math.floor(t / 60)}:${Math.floor(t % 60)
-    .toString()
-    .padStart(2, '0')}`;
+// Boxes are drawn from this long before their timecode until this long after.
+const BOX_VISIBLE_SECS = 1;
+
+// The part of the <video> element the picture fills, which is letterboxed
+// when the element's aspect ratio differs from the video's.
+function pictureRect(video: HTMLVideoElement) {
+  const scale = Math.min(
+    video.clientWidth / video.videoWidth,
+    video.clientHeight / video.videoHeight,
+  );
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return {
+    left: video.offsetLeft + (video.clientWidth - width) / 2,
+    top: video.offsetTop + (video.clientHeight - height) / 2,
+    width,
+    height,
+  };
+}
 
 interface YouTubeSearchResult {
   videoId: string;
@@ -35,10 +57,13 @@ export default function VideoPlayer({
   video,
   setVideo,
   youtubeVideoId,
+  youtubeStartSecs = 0,
   youtubeUrlInput,
   onYoutubeUrlChange,
   onYoutubeUrlSubmit,
   isLoadingVideo,
+  onCancelUpload,
+  uploadProgress,
   videoError,
   videoMimeType,
   youtubeSearchQuery,
@@ -48,15 +73,23 @@ export default function VideoPlayer({
   youtubeSearchResults,
   youtubeSearchError,
   onSelectSearchResult,
+  chapters,
+  boxes,
+  ranges,
+  captions,
 }: {
   url: string | null;
   video: HTMLVideoElement | null;
   setVideo: (video: HTMLVideoElement | null) => void;
   youtubeVideoId: string | null;
+  // Seconds into the YouTube video to start at.
+  youtubeStartSecs?: number;
   youtubeUrlInput: string;
   onYoutubeUrlChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onYoutubeUrlSubmit: () => void;
   isLoadingVideo: boolean;
+  onCancelUpload?: () => void;
+  uploadProgress?: UploadProgress | null;
   videoError: string | null;
   videoMimeType: string | null;
   youtubeSearchQuery: string;
@@ -66,19 +99,58 @@ export default function VideoPlayer({
   youtubeSearchResults: YouTubeSearchResult[];
   youtubeSearchError: string | null;
   onSelectSearchResult: (videoId: string) => void;
+  // Drawn as segments of the scrubber.
+  chapters?: Chapter[] | null;
+  // Drawn over the video around their timecodes.
+  boxes?: ObjectBox[] | null;
+  // Highlighted on the scrubber, and playable in a loop.
+  ranges?: Cue[] | null;
+  // Shown as subtitles on the video, unless a subtitle file is loaded.
+  captions?: Cue[] | null;
 }) {
   const [duration, setDuration] = useState(0);
   const [scrubberTime, setScrubberTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isScrubbing, setIsScrubbing] = useState(false);
   const [activeTab, setActiveTab] = useState<'url' | 'search'>('url');
+  const [loopRange, setLoopRange] = useState<Cue | null>(null);
+  const [captionsFile, setCaptionsFile] = useState<{
+    name: string;
+    url: string;
+  } | null>(null);
+  const [showCaptions, setShowCaptions] = useState(true);
   const currentSecs = duration * scrubberTime || 0;
   const currentPercent = scrubberTime * 100;
+  // Every time on the player shows hours if the video is that long.
+  const formatTime = (secs: number) =>
+    formatTimecode(secs, {withHours: duration >= 3600});
+  const chapterSegments = useMemo(
+    () => (chapters && duration ? chapterRanges(chapters, duration) : []),
+    [chapters, duration],
+  );
+  const currentChapter =
+    chapterSegments[chapterAt(chapterSegments, currentSecs)];
+  const currentRange = cueAt(ranges ?? [], currentSecs);
+  const visibleBoxes = (boxes ?? [])
+    .map((box) => ({...box, secs: timecodeToSecs(box.time)}))
+    .filter(({secs}) => Math.abs(secs - currentSecs) <= BOX_VISIBLE_SECS);
+
+  const captionsUrl = useMemo(
+    () =>
+      captions?.length > 0
+        ? URL.createObjectURL(new Blob([toVtt(captions)], {type: 'text/vtt'}))
+        : null,
+    [captions],
+  );
+  const trackUrl = captionsFile?.url ?? captionsUrl;
 
-  const youtubeSrc = useMemo(() => {
-    if (!youtubeVideoId) return '';
-    return `https://www.youtube.com/embed/${youtubeVideoId}?enablejsapi=1`;
-  }, [youtubeVideoId]);
+  const youtubeSrc = useMemo(
+    () =>
+      youtubeVideoId
+        ? embedUrl(youtubeVideoId, youtubeStartSecs, {enablejsapi: '1'})
+        : '',
+    [youtubeVideoId, youtubeStartSecs],
+  );
 
   const togglePlay = useCallback(() => {
     if (!video) return;
@@ -91,8 +163,17 @@ export default function VideoPlayer({
 
   const updateDuration = () => setDuration(video!.duration);
 
+  // Position and width of a span of the video on the scrubber.
+  const scrubberSpan = (startSecs: number, endSecs: number) => ({
+    left: `${(startSecs / duration) * 100}%`,
+    width: `${((Math.min(endSecs, duration) - startSecs) / duration) * 100}%`,
+  });
+
   const updateTime = () => {
     if (!video) return;
+    if (loopRange && !isScrubbing && video.currentTime >= loopRange.endSecs) {
+      video.currentTime = loopRange.startSecs;
+    }
     if (!isScrubbing) {
       setScrubberTime(video.currentTime / video.duration);
     }
@@ -106,6 +187,55 @@ export default function VideoPlayer({
     setIsPlaying(false);
   }, [url, youtubeVideoId]);
 
+  useEffect(() => setLoopRange(null), [ranges, url]);
+
+  useEffect(
+    () => () => {
+      if (captionsUrl) URL.revokeObjectURL(captionsUrl);
+    },
+    [captionsUrl],
+  );
+  useEffect(
+    () => () => {
+      if (captionsFile) URL.revokeObjectURL(captionsFile.url);
+    },
+    [captionsFile],
+  );
+  useEffect(() => setCaptionsFile(null), [url]);
+
+  // A track only draws its cues while its mode is 'showing'.
+  useEffect(() => {
+    const track = video?.textTracks[0];
+    if (track) track.mode = showCaptions ? 'showing' : 'hidden';
+  }, [video, trackUrl, showCaptions]);
+
+  // Plays an SRT or WebVTT file as the video's subtitles.
+  const loadCaptions = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const vtt = /\.srt$/i.test(file.name) ? srtToVtt(text) : text;
+    setCaptionsFile({
+      name: file.name,
+      url: URL.createObjectURL(new Blob([vtt], {type: 'text/vtt'})),
+    });
+    setShowCaptions(true);
+  };
+
+  // Loops the range playing now, or the next one.
+  const toggleLoop = () => {
+    if (loopRange) {
+      setLoopRange(null);
+      return;
+    }
+    const range =
+      currentRange ?? ranges?.find(({startSecs}) => startSecs > currentSecs);
+    if (!range || !video) return;
+    setLoopRange(range);
+    if (range !== currentRange) video.currentTime = range.startSecs;
+  };
+
   useEffect(() => {
     const onKeyPress = (e: KeyboardEvent) => {
       if (
@@ -128,7 +258,25 @@ export default function VideoPlayer({
   const renderEmptyState = () => (
     <div className="emptyVideo">
       {isLoadingVideo ? (
-        <p>Processing...</p>
+        <div className="emptyVideoContent">
+          <p>
+            {uploadProgress
+              ? formatUploadProgress(uploadProgress)
+              : 'Processing...'}
+          </p>
+          {uploadProgress?.phase === 'uploading' && (
+            <progress
+              className="uploadProgress"
+              value={uploadProgress.bytesSent}
+              max={uploadProgress.totalBytes || 1}
+            />
+          )}
+          {onCancelUpload && (
+            <button className="button cancelButton" onClick={onCancelUpload}>
+              Cancel upload
+            </button>
+          )}
+        </div>
       ) : (
         <div className="emptyVideoContent">
           <p>Drag and drop a video file here</p>
@@ -152,7 +300,7 @@ export default function VideoPlayer({
               <div className="youtube-input-container">
                 <input
                   type="text"
-                  placeholder="Paste a YouTube URL"
+                  placeholder="Paste a YouTube video or playlist URL"
                   value={youtubeUrlInput}
                   onChange={onYoutubeUrlChange}
                   onKeyDown={(e) => {
@@ -229,11 +377,68 @@ export default function VideoPlayer({
               onPlay={onPlay}
               onPause={onPause}>
               {videoMimeType && <source src={url} type={videoMimeType} />}
+              {trackUrl && (
+                <track
+                  key={trackUrl}
+                  kind="subtitles"
+                  src={trackUrl}
+                  label={captionsFile?.name ?? 'Result'}
+                  default
+                />
+              )}
             </video>
+            {video && video.videoWidth > 0 && visibleBoxes.length > 0 && (
+              <div className="boxOverlay" style={pictureRect(video)}>
+                {visibleBoxes.map(({label, box_2d, secs}, i) => {
+                  const [ymin, xmin, ymax, xmax] = box_2d;
+                  return (
+                    <button
+                      key={i}
+                      className="objectBox"
+                      title={`${label} at ${formatTime(secs)}`}
+                      style={{
+                        top: `${ymin / 10}%`,
+                        left: `${xmin / 10}%`,
+                        height: `${(ymax - ymin) / 10}%`,
+                        width: `${(xmax - xmin) / 10}%`,
+                      }}
+                      onClick={() => {
+                        video.currentTime = secs;
+                      }}>
+                      <span>{label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
           <div className="videoControls">
             <div className="videoScrubber">
+              {chapterSegments.length > 0 && (
+                <div className="chapterSegments">
+                  {chapterSegments.map(({startSecs, endSecs}, i) => (
+                    <span key={i} style={scrubberSpan(startSecs, endSecs)} />
+                  ))}
+                </div>
+              )}
+              {duration > 0 && ranges?.length > 0 && (
+                <div className="rangeSegments">
+                  {ranges.map((range, i) => (
+                    <span
+                      key={i}
+                      className={
+                        range === loopRange
+                          ? 'looping'
+                          : range === currentRange
+                            ? 'current'
+                            : ''
+                      }
+                      style={scrubberSpan(range.startSecs, range.endSecs)}
+                    />
+                  ))}
+                </div>
+              )}
               <input
                 style={{'--pct': `${currentPercent}%`} as React.CSSProperties}
                 type="range"
@@ -258,6 +463,44 @@ export default function VideoPlayer({
                   {isPlaying ? 'pause' : 'play_arrow'}
                 </span>
               </button>
+              {currentChapter && (
+                <span className="currentChapter">{currentChapter.title}</span>
+              )}
+              {ranges?.length > 0 && (
+                <button
+                  className={loopRange ? 'active' : ''}
+                  onClick={toggleLoop}
+                  title={
+                    loopRange
+                      ? 'Stop looping'
+                      : 'Loop the current segment of the result'
+                  }>
+                  <span className="icon">repeat</span>
+                </button>
+              )}
+              {trackUrl && (
+                <button
+                  className={showCaptions ? 'active' : ''}
+                  onClick={() => setShowCaptions(!showCaptions)}
+                  title={showCaptions ? 'Hide subtitles' : 'Show subtitles'}>
+                  <span className="icon">closed_caption</span>
+                </button>
+              )}
+              <label
+                className="loadCaptions"
+                title={
+                  captionsFile
+                    ? `Playing ${captionsFile.name}; load another SRT or WebVTT file`
+                    : 'Load subtitles from an SRT or WebVTT file'
+                }>
+                <span className="icon">subtitles</span>
+                <input
+                  type="file"
+                  accept=".srt,.vtt,text/vtt"
+                  onChange={loadCaptions}
+                  hidden
+                />
+              </label>
               {formatTime(currentSecs)} / {formatTime(duration)}
             </div>
           </div>
@@ -5,32 +5,221 @@
 /* tslint:disable */
 
 import {
+  Content,
   FunctionDeclaration,
-  GoogleGenAI,
+  GenerateContentResponse,
   Part,
   File as GenAIFile,
-  Type,
+  Tool,
 } from '@google/genai';
+import {config} from './config';
+import functions from './functions';
+import {
+  getCachedFile,
+  hashFile,
+  isExpired,
+  putCachedFile,
+  removeCachedFile,
+  touchCachedFile,
+} from './fileCache';
+import {getProvider} from './provider';
+import type {YouTubeSearchResult} from './provider';
+import {estimateTokens, TokenEstimate} from './tokens';
+import type {UploadProgress} from './upload';
+import {formatTimecode} from './timecode';
+import {delay, isAbortError} from './utils';
 
 const systemInstruction = `When given a video and a query, call the relevant \
 function only once with the appropriate timecodes and text for the video`;
 
-const client = new GoogleGenAI({apiKey: process.env.API_KEY});
+// A video's cache holds every declaration, so each request names the one to
+// call, and the chat, which names none, gets text answers.
+const cacheSystemInstruction = `When given a video and a query that names a \
+function, call that function only once with the appropriate timecodes and \
+text for the video. Answer in text when the query names no function.`;
 
-async function generateContent(
+const CONTEXT_CACHE_TTL_SECONDS = 60 * 60;
+// Renew a cache when it has less than this much time left.
+const CONTEXT_CACHE_RENEW_MARGIN_MS = 5 * 60 * 1000;
+
+interface ContextCacheEntry {
+  name: string;
+  expireTime: number;
+}
+
+// Part of the video to analyze, in seconds from its start.
+interface VideoClip {
+  startSecs: number;
+  endSecs: number;
+}
+
+// Server-side cached contents per video, keyed by file URI. Each holds the
+// video with every function declaration, shared by all modes and the chat.
+const contextCaches = new Map<string, Promise<ContextCacheEntry | null>>();
+
+const toCacheEntry = (cache: {name?: string; expireTime?: string}) => ({
+  name: cache.name!,
+  expireTime: cache.expireTime
+    ? new Date(cache.expireTime).getTime()
+    : Date.now() + CONTEXT_CACHE_TTL_SECONDS * 1000,
+});
+
+async function createContextCache(file: {
+  uri?: string;
+  mimeType?: string;
+}): Promise<ContextCacheEntry | null> {
+  try {
+    const cache = await getProvider().createCache({
+      model: config.model,
+      config: {
+        displayName: `video-context ${file.uri}`,
+        ttl: `${CONTEXT_CACHE_TTL_SECONDS}s`,
+        contents: [
+          {
+            role: 'user',
+            parts: [{fileData: {mimeType: file.mimeType, fileUri: file.uri}}],
+          },
+        ],
+        systemInstruction: cacheSystemInstruction,
+        tools: [{functionDeclarations: functions}],
+      },
+    });
+    console.log(`Created context cache ${cache.name}`);
+    return toCacheEntry(cache);
+  } catch (e) {
+    // Short videos can fall below the minimum cacheable size; those are sent
+    // inline as before.
+    console.warn('Could not create context cache, sending video inline', e);
+    return null;
+  }
+}
+
+/**
+ * Returns the name of a cached-content entry holding `file`, creating it on
+ * first use and extending its TTL when it is about to expire. Returns null
+ * when the video can't be cached and must be sent with the request instead;
+ * the next call tries again.
+ */
+async function getVideoContextCache(file: {
+  uri?: string;
+  mimeType?: string;
+}): Promise<string | null> {
+  if (!file.uri) return null;
+  const key = file.uri;
+  const settle = async (entryPromise: Promise<ContextCacheEntry | null>) => {
+    contextCaches.set(key, entryPromise);
+    const entry = await entryPromise;
+    // Failures aren't remembered, unless a newer attempt replaced this one.
+    if (!entry && contextCaches.get(key) === entryPromise) {
+      contextCaches.delete(key);
+    }
+    return entry;
+  };
+
+  const cached = contextCaches.get(key);
+  let entry = await (cached ?? settle(createContextCache(file)));
+  if (!entry) return null;
+
+  if (entry.expireTime - CONTEXT_CACHE_RENEW_MARGIN_MS <= Date.now()) {
+    const expired = entry;
+    entry = await settle(
+      getProvider()
+        .updateCache({
+          name: expired.name,
+          config: {ttl: `${CONTEXT_CACHE_TTL_SECONDS}s`},
+        })
+        .then(toCacheEntry)
+        .catch((e) => {
+          // The cache already expired on the server, so build a new one.
+          console.warn(`Context cache ${expired.name} expired, recreating`, e);
+          return createContextCache(file);
+        }),
+    );
+  }
+  return entry?.name ?? null;
+}
+
+// Deletes the context cache held for a video, e.g. when a new one is loaded.
+async function releaseVideoContextCache(fileUri: string) {
+  const entryPromise = contextCaches.get(fileUri);
+  if (!entryPromise) return;
+  contextCaches.delete(fileUri);
+  const entry = await entryPromise;
+  if (entry) {
+    await getProvider()
+      .deleteCache(entry.name)
+      .catch((e) => console.warn('Could not delete context cache', e));
+  }
+}
+
+function buildRequest(
   text: string,
   functionDeclarations: FunctionDeclaration[],
   file: GenAIFile | null,
   youtubeUrl?: string,
+  signal?: AbortSignal,
+  cachedContent?: string | null,
+  clip?: VideoClip,
 ) {
   const userParts: Part[] = [];
   let promptText = text;
 
+  if (clip) {
+    // Clipping needs the video in a fileData part, which a YouTube URL can
+    // be too.
+    const videoMetadata = {
+      startOffset: `${clip.startSecs}s`,
+      endOffset: `${clip.endSecs}s`,
+    };
+    promptText = `${text}\n\nOnly the part of the video from ${formatTimecode(clip.startSecs)} to ${formatTimecode(clip.endSecs)} is attached. Give timecodes relative to the start of that part, which is 00:00.`;
+    userParts.push({text: promptText});
+    userParts.push(
+      file
+        ? {
+            fileData: {mimeType: file.mimeType, fileUri: file.uri},
+            videoMetadata,
+          }
+        : {fileData: {fileUri: youtubeUrl}, videoMetadata},
+    );
+    return {
+      model: config.model,
+      contents: [{role: 'user', parts: userParts}],
+      config: {
+        systemInstruction,
+        temperature: 0.5,
+        tools: [{functionDeclarations}],
+        abortSignal: signal,
+      },
+    };
+  }
+
   if (youtubeUrl) {
     promptText = `${text}\n\nAnalyze the following YouTube video, providing timecodes relative to the video's timeline: ${youtubeUrl}`;
   }
   userParts.push({text: promptText});
 
+  if (cachedContent) {
+    // The video, instruction and tools all live in the cache, so the prompt
+    // says which function to call.
+    const names = functionDeclarations.map(({name}) => name);
+    userParts[0] = {
+      text: `${promptText}\n\nAnswer by calling ${
+        names.length === 1
+          ? `the ${names[0]} function`
+          : `one of these functions: ${names.join(', ')}`
+      }.`,
+    };
+    return {
+      model: config.model,
+      contents: [{role: 'user', parts: userParts}],
+      config: {
+        cachedContent,
+        temperature: 0.5,
+        abortSignal: signal,
+      },
+    };
+  }
+
   if (file) {
     userParts.push({
       fileData: {
@@ -40,8 +229,8 @@ async function generateContent(
     });
   }
 
-  const response = await client.models.generateContent({
-    model: 'gemini-2.5-flash',
+  return {
+    model: config.model,
     contents: [
       {
         role: 'user',
@@ -52,102 +241,293 @@ async function generateContent(
       systemInstruction,
       temperature: 0.5,
       tools: [{functionDeclarations}],
+      abortSignal: signal,
     },
+  };
+}
+
+// Mode runs on the same video share its cache, which declares every function
+// in functions.ts.
+function getAnalysisCache(
+  file: GenAIFile | null,
+  functionDeclarations: FunctionDeclaration[],
+) {
+  const cacheable = functionDeclarations.every(({name}) =>
+    functions.some((declaration) => declaration.name === name),
+  );
+  if (!file || !cacheable) return Promise.resolve(null);
+  return getVideoContextCache(file);
+}
+
+// Streams the answer so `onText` can show text as it arrives, and returns
+// the chunks folded into one response like the non-streaming call.
+async function generateContent(
+  text: string,
+  functionDeclarations: FunctionDeclaration[],
+  file: GenAIFile | null,
+  youtubeUrl?: string,
+  signal?: AbortSignal,
+  clip?: VideoClip,
+  onText?: (text: string) => void,
+) {
+  // Caches hold the whole video, so clipped requests can't use them.
+  const cachedContent = clip
+    ? null
+    : await getAnalysisCache(file, functionDeclarations);
+  const stream = await getProvider().generateContentStream(
+    buildRequest(
+      text,
+      functionDeclarations,
+      file,
+      youtubeUrl,
+      signal,
+      cachedContent,
+      clip,
+    ),
+  );
+
+  // Text chunks are deltas; function calls arrive whole in one chunk.
+  let answer = '';
+  const otherParts: Part[] = [];
+  let last: GenerateContentResponse | undefined;
+  for await (const chunk of stream) {
+    last = chunk;
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+      if (part.text === undefined) {
+        otherParts.push(part);
+      } else if (!part.thought && part.text) {
+        answer += part.text;
+        onText?.(answer);
+      }
+    }
+  }
+
+  return Object.assign(new GenerateContentResponse(), {
+    ...last,
+    candidates: [
+      {
+        ...last?.candidates?.[0],
+        content: {
+          role: 'model',
+          parts: [...(answer ? [{text: answer}] : []), ...otherParts],
+        },
+      },
+    ],
+  });
+}
+
+async function countTokens(contents: Content[], signal?: AbortSignal) {
+  return getProvider().countTokens({
+    model: config.model,
+    contents,
+    config: {abortSignal: signal},
   });
+}
+
+// Counting a long video takes a while and never changes, so remember it.
+const fileTokenCounts = new Map<string, Promise<number>>();
 
-  return response;
+function countFileTokens(file: {uri?: string; mimeType?: string}) {
+  let count = fileTokenCounts.get(file.uri);
+  if (!count) {
+    count = countTokens([
+      {
+        role: 'user',
+        parts: [{fileData: {fileUri: file.uri, mimeType: file.mimeType}}],
+      },
+    ]);
+    count.catch(() => fileTokenCounts.delete(file.uri));
+    fileTokenCounts.set(file.uri, count);
+  }
+  return count;
+}
+
+/**
+ * Pre-flight estimate for a generateContent call: the prompt text and the
+ * video are counted separately.
+ */
+async function estimateGenerateContentTokens(
+  text: string,
+  file: GenAIFile | null,
+  youtubeUrl?: string,
+  signal?: AbortSignal,
+): Promise<TokenEstimate> {
+  const {contents} = buildRequest(text, [], null, youtubeUrl);
+  return estimateTokens(
+    config.model,
+    [
+      {label: 'Prompt', contents},
+      ...(file ? [{label: 'Video', tokens: countFileTokens(file)}] : []),
+    ],
+    (sectionContents) => countTokens(sectionContents, signal),
+  );
 }
 
-async function uploadFile(file: File): Promise<GenAIFile> {
-  const blob = new Blob([file], {type: file.type});
+const summarySystemInstruction = `You summarize conversations between a user \
+and an assistant about a video. Keep every fact, decision, open question and \
+timecode that later turns may refer to. Write plain prose, no preamble.`;
 
-  console.log('Uploading...');
-  const uploadedFile = await client.files.upload({
-    file: blob,
+// Model-written summary of an earlier part of a chat, used to compact history.
+async function summarizeConversation(transcript: string, signal?: AbortSignal) {
+  const response = await getProvider().generateContent({
+    model: config.model,
+    contents: `Summarize this conversation:\n\n${transcript}`,
     config: {
-      displayName: file.name,
+      systemInstruction: summarySystemInstruction,
+      temperature: 0.2,
+      abortSignal: signal,
     },
   });
-  console.log('Uploaded.');
-  console.log('Getting...');
-  let getFile = await client.files.get({
-    name: uploadedFile.name,
-  });
-  while (getFile.state === 'PROCESSING') {
-    getFile = await client.files.get({
-      name: uploadedFile.name,
+  return response.text ?? '';
+}
+
+interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  // Overall limit for uploading and processing together.
+  timeoutMs?: number;
+  // Reuse an earlier upload of the same content while it has not expired.
+  useCache?: boolean;
+}
+
+const DEFAULT_UPLOAD_TIMEOUT_MS = 15 * 60 * 1000;
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 10000;
+
+async function uploadFile(
+  file: File,
+  {
+    signal,
+    onProgress,
+    timeoutMs = DEFAULT_UPLOAD_TIMEOUT_MS,
+    useCache = true,
+  }: UploadOptions = {},
+): Promise<GenAIFile> {
+  const startTime = Date.now();
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const uploadSignal = signal
+    ? AbortSignal.any([signal, timeoutSignal])
+    : timeoutSignal;
+  const report = (progress: Omit<UploadProgress, 'elapsedMs' | 'totalBytes'>) =>
+    onProgress?.({
+      ...progress,
+      totalBytes: file.size,
+      elapsedMs: Date.now() - startTime,
     });
-    console.log(`current file status: ${getFile.state}`);
-    console.log('File is still processing, retrying in 5 seconds');
 
-    await new Promise((resolve) => {
-      setTimeout(resolve, 5000);
+  // Returns the cached entry when the same content is still available
+  // remotely, otherwise the content hash to record the new upload under.
+  const findReusableUpload = async () => {
+    report({phase: 'hashing', bytesSent: 0});
+    let hash: string;
+    try {
+      hash = await hashFile(file);
+    } catch (err) {
+      console.warn('Could not hash file, uploading without cache', err);
+      return null;
+    }
+    const cached = await getCachedFile(hash).catch(() => undefined);
+    if (!cached) return hash;
+    if (!isExpired(cached)) {
+      try {
+        const remote = await getProvider().getFile(
+          cached.file.name,
+          uploadSignal,
+        );
+        if (remote.state === 'ACTIVE') {
+          console.log(`Reusing upload ${remote.name} for ${file.name}`);
+          await touchCachedFile({...cached, file: remote});
+          return {...cached, file: remote};
+        }
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+      }
+    }
+    // Expired or deleted remotely: upload again under the same hash.
+    await removeCachedFile(hash).catch(() => undefined);
+    return hash;
+  };
+
+  let uploadedFile: GenAIFile | null = null;
+  try {
+    const reusable = useCache ? await findReusableUpload() : null;
+    if (reusable && typeof reusable !== 'string') return reusable.file;
+    const hash = reusable;
+
+    console.log('Uploading...');
+    uploadedFile = await getProvider().uploadFile(file, {
+      signal: uploadSignal,
+      onProgress: (bytesSent) => report({phase: 'uploading', bytesSent}),
     });
+    console.log('Uploaded.');
+
+    console.log('Getting...');
+    let pollInterval = MIN_POLL_INTERVAL_MS;
+    let getFile = await getProvider().getFile(uploadedFile.name, uploadSignal);
+    while (getFile.state === 'PROCESSING') {
+      console.log(`current file status: ${getFile.state}`);
+      report({phase: 'processing', bytesSent: file.size, state: getFile.state});
+
+      await delay(pollInterval, uploadSignal);
+      pollInterval = Math.min(pollInterval * 1.5, MAX_POLL_INTERVAL_MS);
+      getFile = await getProvider().getFile(uploadedFile.name, uploadSignal);
+    }
+    console.log(getFile.state);
+    if (getFile.state === 'FAILED') {
+      throw new Error('File processing failed.');
+    }
+    console.log('Done');
+    if (hash) {
+      await putCachedFile(hash, getFile).catch((err) =>
+        console.warn('Could not record upload in the file cache', err),
+      );
+    }
+    return getFile;
+  } catch (e) {
+    if (isAbortError(e) || timeoutSignal.aborted) {
+      if (uploadedFile) {
+        // The upload itself finished, so don't leave the file behind.
+        getProvider()
+          .deleteFile(uploadedFile.name)
+          .catch((err) =>
+            console.warn('Could not delete cancelled upload', err),
+          );
+      }
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        throw new Error(
+          `Upload timed out after ${Math.round(timeoutMs / 60000)} minutes.`,
+        );
+      }
+    }
+    throw e;
   }
-  console.log(getFile.state);
-  if (getFile.state === 'FAILED') {
-    throw new Error('File processing failed.');
-  }
-  console.log('Done');
-  return getFile;
 }
 
-interface YouTubeSearchResult {
-  videoId: string;
-  title: string;
-  thumbnailUrl: string;
+async function deleteFile(name: string) {
+  await getProvider().deleteFile(name);
 }
 
+// Basic validation of a video the model listed.
+const isVideoResult = (item: YouTubeSearchResult) =>
+  item &&
+  typeof item.videoId === 'string' &&
+  typeof item.title === 'string' &&
+  typeof item.thumbnailUrl === 'string';
+
 async function searchYoutubeVideos(
   query: string,
+  signal?: AbortSignal,
 ): Promise<YouTubeSearchResult[]> {
   try {
-    const response = await client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Find 5 relevant YouTube videos about "${query}". Provide the video ID, title, and thumbnail URL for each.`,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              videoId: {
-                type: Type.STRING,
-                description: 'The 11-character YouTube video ID.',
-              },
-              title: {
-                type: Type.STRING,
-                description: 'The title of the YouTube video.',
-              },
-              thumbnailUrl: {
-                type: Type.STRING,
-                description:
-                  'The URL for the video thumbnail image, typically from i.ytimg.com.',
-              },
-            },
-            required: ['videoId', 'title', 'thumbnailUrl'],
-          },
-        },
-      },
-    });
-
-    const jsonString = response.text.trim();
-    const result = JSON.parse(jsonString);
-
-    if (!Array.isArray(result)) {
-      throw new Error('API did not return a valid array of search results.');
-    }
-
-    // Basic validation of the returned structure
-    return result.filter(
-      (item) =>
-        item &&
-        typeof item.videoId === 'string' &&
-        typeof item.title === 'string' &&
-        typeof item.thumbnailUrl === 'string',
+    const result = await getProvider().searchVideos(
+      config.model,
+      query,
+      signal,
     );
+
+    return result.filter(isVideoResult);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error searching YouTube videos:', error);
     throw new Error(
       `Failed to search YouTube. The model may be unable to find results for your query. Original error: ${
@@ -157,4 +537,62 @@ async function searchYoutubeVideos(
   }
 }
 
-export {generateContent, uploadFile, searchYoutubeVideos};
\ No newline at end of file
+/**
+ * The videos of a YouTube playlist, listed with the YouTube Data API through
+ * the API proxy. Private and deleted videos are left out, and only the first
+ * 200 videos are listed. Only IDs that look like video IDs are kept.
+ */
+async function listYoutubePlaylist(
+  playlistId: string,
+  signal?: AbortSignal,
+): Promise<YouTubeSearchResult[]> {
+  try {
+    const result = await getProvider().listPlaylistVideos(playlistId, signal);
+    return result
+      .filter(isVideoResult)
+      .filter(({videoId}) => /^[\w-]{11}$/.test(videoId));
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error listing YouTube playlist:', error);
+    throw new Error(
+      `Failed to list the playlist. Original error: ${(error as Error).message}`,
+    );
+  }
+}
+
+// Starts a chat with the configured model, optionally seeded with history.
+function createChat(history?: Content[]) {
+  return getProvider().createChat(config.model, history);
+}
+
+// Reads `text` aloud with the configured TTS model; resolves to WAV audio.
+function synthesizeSpeech(text: string, signal?: AbortSignal) {
+  return getProvider().synthesizeSpeech(
+    config.ttsModel,
+    text,
+    config.ttsVoice,
+    signal,
+  );
+}
+
+function embedTexts(texts: string[], signal?: AbortSignal) {
+  return getProvider().embed(config.embeddingModel, texts, signal);
+}
+
+export type {UploadOptions, UploadProgress, VideoClip};
+export {
+  countFileTokens,
+  countTokens,
+  createChat,
+  deleteFile,
+  embedTexts,
+  estimateGenerateContentTokens,
+  generateContent,
+  getVideoContextCache,
+  releaseVideoContextCache,
+  uploadFile,
+  listYoutubePlaylist,
+  searchYoutubeVideos,
+  summarizeConversation,
+  synthesizeSpeech,
+};
\ No newline at end of file
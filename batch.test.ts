@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {runBatch} from './batch';
+import modes from './modes';
+import {generateResult, MAX_VALIDATION_ATTEMPTS} from './results';
+
+vi.mock('./api', () => ({generateContent: vi.fn()}));
+vi.mock('./results', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./results')>()),
+  generateResult: vi.fn(),
+}));
+
+const mockedGenerateResult = vi.mocked(generateResult);
+const mode = modes['A/V captions'];
+const task = {key: 'captions', name: 'Captions', mode, prompt: '', label: ''};
+
+describe('runBatch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedGenerateResult.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('re-prompts invalid results only on the first attempt', async () => {
+    // Stands in for generateResult asking the model maxAttempts times.
+    let modelCalls = 0;
+    mockedGenerateResult.mockImplementation(
+      async (...args: Parameters<typeof generateResult>) => {
+        modelCalls += args[7];
+        throw new Error('The model returned invalid results');
+      },
+    );
+    const done = runBatch([task], {file: null, maxAttempts: 3});
+    await vi.runAllTimersAsync();
+    const [entry] = await done;
+
+    expect(entry).toMatchObject({status: 'failed', attempts: 3});
+    expect(mockedGenerateResult.mock.calls.map((args) => args[7])).toEqual([
+      MAX_VALIDATION_ATTEMPTS,
+      1,
+      1,
+    ]);
+    expect(modelCalls).toBe(MAX_VALIDATION_ATTEMPTS + 2);
+  });
+
+  it('stops retrying once a task succeeds', async () => {
+    mockedGenerateResult
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({name: 'text', text: 'Done'});
+    const done = runBatch([task], {file: null});
+    await vi.runAllTimersAsync();
+    const [entry] = await done;
+
+    expect(entry).toMatchObject({
+      status: 'done',
+      attempts: 2,
+      result: {name: 'text', text: 'Done'},
+    });
+    expect(mockedGenerateResult).toHaveBeenCalledTimes(2);
+  });
+});
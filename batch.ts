@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {File as GenAIFile} from '@google/genai';
+import type {VideoClip} from './api';
+import {Mode, modeFunctions, ModeOption} from './modes';
+import {
+  GenerateResult,
+  generateResult,
+  MAX_VALIDATION_ATTEMPTS,
+} from './results';
+import {delay, isAbortError} from './utils';
+import {watchUrl} from './youtube';
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// One prompt to run: a mode without inputs, or a mode with one of its
+// input presets filled in.
+interface BatchTask {
+  key: string;
+  name: string;
+  mode: Mode;
+  prompt: string;
+  // Names the result, e.g. the chart's y axis.
+  label: string;
+  // Runs on this part of the video only.
+  clip?: VideoClip;
+  // Runs on this YouTube video instead of the batch's video.
+  youtubeUrl?: string;
+}
+
+type BatchStatus =
+  'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+interface BatchEntry {
+  task: BatchTask;
+  status: BatchStatus;
+  attempts: number;
+  result?: GenerateResult;
+  error?: string;
+  durationMs?: number;
+}
+
+interface BatchOptions {
+  file: GenAIFile | null;
+  youtubeUrl?: string;
+  // Length of the video, when known, to reject times past its end.
+  durationSecs?: number;
+  concurrency?: number;
+  // Attempts per task, including the first one.
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onUpdate?: (entries: BatchEntry[]) => void;
+}
+
+/**
+ * Expands modes into batch tasks. Inputs can't be typed during a batch, so
+ * a mode runs once per preset of its first input, with the first preset of
+ * any other input. Modes with an input that has no presets are skipped.
+ */
+function batchTasks(options: ModeOption[]): BatchTask[] {
+  return options.flatMap(({key, name, mode}) => {
+    if (mode.inputs.some(({presets}) => !presets)) return [];
+    if (mode.inputs.length === 0) {
+      return [{key, name, mode, prompt: mode.prompt({}), label: name}];
+    }
+    const [first, ...rest] = mode.inputs;
+    const restValues = Object.fromEntries(
+      rest.map(({name, presets}) => [name, Object.values(presets)[0]]),
+    );
+    return Object.entries(first.presets).map(([label, value]) => ({
+      key: `${key}/${label}`,
+      name: `${name}: ${label}`,
+      mode,
+      prompt: mode.prompt({...restValues, [first.name]: value}),
+      label,
+    }));
+  });
+}
+
+/**
+ * Repeats the tasks for every video of a playlist, grouped by video. The
+ * video's title goes in front of each task's name.
+ */
+const playlistTasks = (
+  tasks: BatchTask[],
+  videos: {videoId: string; title: string}[],
+): BatchTask[] =>
+  videos.flatMap(({videoId, title}) =>
+    tasks.map((task) => ({
+      ...task,
+      key: `${videoId}/${task.key}`,
+      name: `${title}: ${task.name}`,
+      youtubeUrl: watchUrl(videoId),
+    })),
+  );
+
+const isBatchable = (option: ModeOption) =>
+  option.mode.inputs.every(({presets}) => presets);
+
+/**
+ * Runs the tasks against one video, at most `concurrency` at a time. A task
+ * that fails is retried with exponential backoff up to `maxAttempts` times,
+ * then reported as failed without stopping the others. Aborting cancels
+ * every task that hasn't finished.
+ *
+ * The first attempt may re-prompt invalid results MAX_VALIDATION_ATTEMPTS
+ * times, retries only once each, so a task makes at most
+ * MAX_VALIDATION_ATTEMPTS + maxAttempts - 1 model calls: 5 by default.
+ */
+async function runBatch(
+  tasks: BatchTask[],
+  {
+    file,
+    youtubeUrl,
+    durationSecs,
+    concurrency = DEFAULT_CONCURRENCY,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    signal,
+    onUpdate,
+  }: BatchOptions,
+): Promise<BatchEntry[]> {
+  let entries: BatchEntry[] = tasks.map((task) => ({
+    task,
+    status: 'queued',
+    attempts: 0,
+  }));
+  const update = (index: number, fields: Partial<BatchEntry>) => {
+    entries = entries.map((entry, i) =>
+      i === index ? {...entry, ...fields} : entry,
+    );
+    onUpdate?.(entries);
+  };
+
+  const runTask = async (index: number) => {
+    const {task} = entries[index];
+    const startedAt = Date.now();
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      update(index, {status: 'running', attempts: attempt});
+      try {
+        // The batch's file and length don't apply to another video.
+        const ownVideo = !task.youtubeUrl;
+        const result = await generateResult(
+          task.prompt,
+          modeFunctions(task.mode),
+          ownVideo ? file : null,
+          task.youtubeUrl ?? youtubeUrl,
+          signal,
+          task.clip,
+          ownVideo ? durationSecs : undefined,
+          // generateResult already re-prompted on the first attempt.
+          attempt === 1 ? MAX_VALIDATION_ATTEMPTS : 1,
+        );
+        update(index, {
+          status: 'done',
+          result,
+          error: undefined,
+          durationMs: Date.now() - startedAt,
+        });
+        return;
+      } catch (e) {
+        if (isAbortError(e) || signal?.aborted) {
+          update(index, {status: 'cancelled'});
+          return;
+        }
+        const error = (e as Error).message;
+        if (attempt === maxAttempts) {
+          update(index, {
+            status: 'failed',
+            error,
+            durationMs: Date.now() - startedAt,
+          });
+          return;
+        }
+        console.warn(
+          `${task.name} failed (attempt ${attempt}/${maxAttempts}):`,
+          error,
+        );
+        update(index, {status: 'retrying', error});
+        try {
+          await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+        } catch {
+          update(index, {status: 'cancelled'});
+          return;
+        }
+      }
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        update(index, {status: 'cancelled'});
+      } else {
+        await runTask(index);
+      }
+    }
+  };
+
+  onUpdate?.(entries);
+  await Promise.all(
+    Array.from({length: Math.max(1, Math.min(concurrency, tasks.length))}, () =>
+      worker(),
+    ),
+  );
+  return entries;
+}
+
+// Status line for a task, e.g. in a progress list.
+const describeBatchStatus = (entry: BatchEntry) => {
+  switch (entry.status) {
+    case 'running':
+      return entry.attempts > 1
+        ? `running (attempt ${entry.attempts})`
+        : 'running';
+    case 'retrying':
+      return `retrying after: ${entry.error}`;
+    case 'done':
+      return `done in ${(entry.durationMs / 1000).toFixed(1)} s`;
+    case 'failed':
+      return `failed after ${entry.attempts} attempt(s): ${entry.error}`;
+    default:
+      return entry.status;
+  }
+};
+
+export {batchTasks, describeBatchStatus, isBatchable, playlistTasks, runBatch};
+export type {BatchEntry, BatchOptions, BatchStatus, BatchTask};
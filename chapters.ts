@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Chapter, MIN_CHAPTER_SECS} from './results';
+import {toVtt} from './subtitles';
+import {formatTimecode, timecodeToSecs} from './timecode';
+
+interface ChapterRange {
+  title: string;
+  startSecs: number;
+  endSecs: number;
+}
+
+/**
+ * Start and end of each chapter. A chapter ends where the next one starts and
+ * the last one at the end of the video. Without the video's duration the
+ * last chapter gets the average length of the others.
+ */
+function chapterRanges(
+  chapters: Chapter[],
+  durationSecs?: number,
+): ChapterRange[] {
+  const starts = chapters.map(({time}) => timecodeToSecs(time));
+  const last = starts[starts.length - 1] ?? 0;
+  const averageSecs = starts.length > 1 ? last / (starts.length - 1) : 0;
+  const endSecs =
+    durationSecs > last
+      ? durationSecs
+      : last + Math.max(MIN_CHAPTER_SECS, Math.round(averageSecs));
+  return chapters.map(({title}, i) => ({
+    title,
+    startSecs: starts[i],
+    endSecs: starts[i + 1] ?? endSecs,
+  }));
+}
+
+// Index of the chapter playing at `secs`, or -1 before the first one.
+const chapterAt = (ranges: ChapterRange[], secs: number) =>
+  ranges.filter(({startSecs}) => startSecs <= secs).length - 1;
+
+/**
+ * Chapter list for a YouTube video description. YouTube picks up lines that
+ * start with a timestamp, as long as the first one is 00:00.
+ */
+const toYouTubeDescription = (chapters: Chapter[], durationSecs?: number) => {
+  const withHours = chapterRanges(chapters, durationSecs).some(
+    ({endSecs}) => endSecs >= 3600,
+  );
+  return chapters
+    .map(
+      ({time, title}) =>
+        `${formatTimecode(timecodeToSecs(time), {withHours})} ${title}`,
+    )
+    .join('\n');
+};
+
+/** A WebVTT chapters track, for a <track kind="chapters"> element. */
+const toWebVttChapters = (chapters: Chapter[], durationSecs?: number) =>
+  toVtt(
+    chapterRanges(chapters, durationSecs).map(
+      ({title, startSecs, endSecs}) => ({startSecs, endSecs, text: title}),
+    ),
+  );
+
+// ffmetadata treats these characters as syntax unless escaped.
+const escapeFfmetadata = (text: string) => text.replace(/[=;#\\\n]/g, '\\$&');
+
+/**
+ * Chapters as an ffmetadata file, to embed them in an MP4 or MKV with
+ * `ffmpeg -i video.mp4 -i chapters.txt -map_metadata 1 -codec copy out.mp4`.
+ */
+const toFfmetadata = (chapters: Chapter[], durationSecs?: number) =>
+  [
+    ';FFMETADATA1',
+    ...chapterRanges(chapters, durationSecs).map(
+      ({title, startSecs, endSecs}) =>
+        `[CHAPTER]\nTIMEBASE=1/1000\nSTART=${Math.round(startSecs * 1000)}\nEND=${Math.round(endSecs * 1000)}\ntitle=${escapeFfmetadata(title)}`,
+    ),
+  ].join('\n\n') + '\n';
+
+export {
+  chapterAt,
+  chapterRanges,
+  toFfmetadata,
+  toWebVttChapters,
+  toYouTubeDescription,
+};
+export type {ChapterRange};
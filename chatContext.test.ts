@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Content} from '@google/genai';
+import {describe, expect, it} from 'vitest';
+import {compactHistory} from './chatContext';
+
+const user = (text: string): Content => ({role: 'user', parts: [{text}]});
+
+// A streamed answer as the chat records it: a model content per chunk.
+const streamed = (...chunks: string[]): Content[] =>
+  chunks.map((text) => ({role: 'model', parts: [{text}]}));
+
+const video: Content = {
+  role: 'user',
+  parts: [
+    {text: 'Using the provided video as context, what is this?'},
+    {fileData: {fileUri: 'files/video', mimeType: 'video/mp4'}},
+  ],
+};
+
+const history: Content[] = [
+  video,
+  ...streamed('A cooking ', 'show.'),
+  user('Who hosts it?'),
+  ...streamed('A chef ', 'named ', 'Ann.'),
+  user('What does she cook?'),
+  ...streamed('Soup.'),
+  user('How long does it take?'),
+  ...streamed('About ', 'an hour.'),
+  user('Any tips?'),
+  ...streamed('Use ', 'fresh ', 'herbs.'),
+];
+
+describe('compactHistory', () => {
+  it('counts turns of a streamed chat', async () => {
+    let transcript = '';
+    const result = await compactHistory(
+      history,
+      async (text) => {
+        transcript = text;
+        return 'They talked about the host.';
+      },
+      4,
+    );
+    expect(result).toMatchObject({
+      summarizedCount: 4,
+      pinnedCount: 2,
+      recentCount: 4,
+    });
+    expect(transcript).toBe(
+      [
+        'User: Who hosts it?',
+        'Assistant: A chef named Ann.',
+        'User: What does she cook?',
+        'Assistant: Soup.',
+      ].join('\n\n'),
+    );
+  });
+
+  it('rebuilds the history with one content per turn', async () => {
+    const result = await compactHistory(history, async () => 'Summary', 4);
+    expect(result.history.map(({role}) => role)).toEqual([
+      'user',
+      'model',
+      'user',
+      'model',
+      'user',
+      'model',
+      'user',
+      'model',
+    ]);
+    expect(result.history[1]).toEqual({
+      role: 'model',
+      parts: [{text: 'A cooking show.'}],
+    });
+    expect(result.history.at(-1)).toEqual({
+      role: 'model',
+      parts: [{text: 'Use fresh herbs.'}],
+    });
+  });
+
+  it('keeps attachments next to the text', async () => {
+    const result = await compactHistory(history, async () => 'Summary', 4);
+    expect(result.history[0]).toEqual(video);
+  });
+
+  it('leaves short chats alone', async () => {
+    const short = [video, ...streamed('A ', 'cooking ', 'show.')];
+    expect(await compactHistory(short, async () => 'Summary', 4)).toBeNull();
+  });
+});
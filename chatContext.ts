@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Content, Part} from '@google/genai';
+
+// Compact once the history alone takes this share of the model's input limit.
+const HISTORY_BUDGET_RATIO = 0.5;
+// Number of trailing contents (user and model turns) kept verbatim.
+const KEEP_RECENT_CONTENTS = 6;
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+interface CompactionResult {
+  history: Content[];
+  summary: string;
+  // How many contents were folded into the summary, and how many were kept
+  // verbatim before and after it.
+  summarizedCount: number;
+  pinnedCount: number;
+  recentCount: number;
+}
+
+const hasFileData = (content: Content) =>
+  !!content.parts?.some((part) => part.fileData);
+
+// Plain text parts, which can be joined without losing anything.
+const isText = (part: Part) =>
+  typeof part.text === 'string' && Object.keys(part).length === 1;
+
+const shouldCompactHistory = (historyTokens: number, inputTokenLimit: number) =>
+  historyTokens > inputTokenLimit * HISTORY_BUDGET_RATIO;
+
+const describePart = (part: Part) => {
+  if (part.text) return part.text;
+  const mimeType = part.fileData?.mimeType ?? part.inlineData?.mimeType;
+  return mimeType ? `[attachment: ${mimeType}]` : '';
+};
+
+// Plain-text rendering of contents for the summarization prompt.
+const toTranscript = (contents: Content[]) =>
+  contents
+    .map(
+      (content) =>
+        `${content.role === 'model' ? 'Assistant' : 'User'}: ${(
+          content.parts ?? []
+        )
+          .map(describePart)
+          .filter(Boolean)
+          .join(' ')}`,
+    )
+    .join('\n\n');
+
+/**
+ * Merges consecutive contents of the same role into one per turn, joining
+ * adjacent text parts. A streamed chat records a model content per chunk,
+ * while the UI shows one message per turn.
+ */
+const mergeTurns = (history: Content[]): Content[] =>
+  history.reduce<Content[]>((turns, content) => {
+    const last = turns[turns.length - 1];
+    if (last?.role !== content.role) {
+      return [
+        ...turns,
+        {role: content.role, parts: [...(content.parts ?? [])]},
+      ];
+    }
+    const parts = [...last.parts];
+    for (const part of content.parts ?? []) {
+      const previous = parts[parts.length - 1];
+      if (isText(part) && previous && isText(previous)) {
+        parts[parts.length - 1] = {text: previous.text + part.text};
+      } else {
+        parts.push(part);
+      }
+    }
+    return [...turns.slice(0, -1), {role: content.role, parts}];
+  }, []);
+
+/**
+ * Splits history into the part to keep verbatim at the start (the exchange
+ * that attached the video, if any), the middle to summarize and the recent
+ * turns to keep. The recent part always starts with a user turn.
+ */
+function splitHistory(history: Content[], keepRecent = KEEP_RECENT_CONTENTS) {
+  let pinnedCount = 0;
+  if (history[0] && hasFileData(history[0])) {
+    pinnedCount = history[1]?.role === 'model' ? 2 : 1;
+  }
+  let recentStart = Math.max(pinnedCount, history.length - keepRecent);
+  while (recentStart < history.length && history[recentStart].role !== 'user') {
+    recentStart++;
+  }
+  return {
+    pinned: history.slice(0, pinnedCount),
+    middle: history.slice(pinnedCount, recentStart),
+    recent: history.slice(recentStart),
+  };
+}
+
+/**
+ * Replaces the middle of the history with a model-written summary. Returns
+ * null when there is nothing old enough to summarize. The result has one
+ * content per turn, so its counts are counts of turns.
+ */
+async function compactHistory(
+  history: Content[],
+  summarize: (transcript: string) => Promise<string>,
+  keepRecent = KEEP_RECENT_CONTENTS,
+): Promise<CompactionResult | null> {
+  const {pinned, middle, recent} = splitHistory(
+    mergeTurns(history),
+    keepRecent,
+  );
+  if (middle.length === 0) return null;
+
+  const summary = (await summarize(toTranscript(middle))).trim();
+  if (!summary) {
+    throw new Error('The model returned an empty summary.');
+  }
+
+  return {
+    history: [
+      ...pinned,
+      {role: 'user', parts: [{text: `${SUMMARY_PREFIX}\n${summary}`}]},
+      {
+        role: 'model',
+        parts: [{text: 'Understood. I will use that summary as context.'}],
+      },
+      ...recent,
+    ],
+    summary,
+    summarizedCount: middle.length,
+    pinnedCount: pinned.length,
+    recentCount: recent.length,
+  };
+}
+
+export {compactHistory, shouldCompactHistory, splitHistory, toTranscript};
+export type {CompactionResult};
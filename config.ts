@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+const PROVIDER_NAMES = ['gemini', 'fake'] as const;
+
+const TRAFFIC_MODES = ['off', 'record', 'replay'] as const;
+const FIXTURE_STORES = ['indexeddb', 'disk'] as const;
+
+type ProviderName = (typeof PROVIDER_NAMES)[number];
+type TrafficMode = (typeof TRAFFIC_MODES)[number];
+type FixtureStoreName = (typeof FIXTURE_STORES)[number];
+
+interface AppConfig {
+  // Which adapter serves model requests. 'fake' runs offline with canned,
+  // deterministic responses.
+  provider: ProviderName;
+  // Base URL of the API proxy (proxyServer.ts) that holds the Gemini key.
+  proxyUrl: string;
+  // Model for analysis modes, chat, search and summaries.
+  model: string;
+  ttsModel: string;
+  ttsVoice: string;
+  embeddingModel: string;
+  // 'record' saves every provider request and response as a fixture;
+  // 'replay' answers from those fixtures without touching the network.
+  trafficMode: TrafficMode;
+  // Where fixtures live: IndexedDB in the browser, or the fixtures/ folder
+  // through the dev server.
+  fixtureStore: FixtureStoreName;
+}
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+function readChoice<T extends string>(
+  name: string,
+  value: string | undefined,
+  choices: readonly T[],
+): T {
+  const choice = value || choices[0];
+  if (!choices.includes(choice as T)) {
+    throw new Error(
+      `Unknown ${name} "${choice}". Expected one of: ${choices.join(', ')}.`,
+    );
+  }
+  return choice as T;
+}
+
+// Values come from .env.local through the `define` block in vite.config.ts.
+function readConfig(): AppConfig {
+  return {
+    provider: readChoice(
+      'AI_PROVIDER',
+      process.env.AI_PROVIDER,
+      PROVIDER_NAMES,
+    ),
+    proxyUrl: new URL(
+      process.env.AI_PROXY_URL || '/api',
+      window.location.href,
+    ).href.replace(/\/$/, ''),
+    model: process.env.AI_MODEL || DEFAULT_MODEL,
+    ttsModel: process.env.AI_TTS_MODEL || 'gemini-2.5-flash-preview-tts',
+    ttsVoice: process.env.AI_TTS_VOICE || 'Kore',
+    embeddingModel: process.env.AI_EMBEDDING_MODEL || 'gemini-embedding-001',
+    trafficMode: readChoice(
+      'AI_TRAFFIC_MODE',
+      process.env.AI_TRAFFIC_MODE,
+      TRAFFIC_MODES,
+    ),
+    fixtureStore: readChoice(
+      'AI_FIXTURE_STORE',
+      process.env.AI_FIXTURE_STORE,
+      FIXTURE_STORES,
+    ),
+  };
+}
+
+const config = readConfig();
+
+export {config, DEFAULT_MODEL};
+export type {AppConfig, FixtureStoreName, ProviderName, TrafficMode};
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import functions from './functions';
+import {Mode, RENDERER_NAMES, RendererName, rendererResults} from './modes';
+import type {FunctionName} from './results';
+
+const STORAGE_KEY = 'customModes';
+const CHANGE_EVENT = 'custom-modes-change';
+const EXPORT_VERSION = 2;
+
+// Sub-mode presets fill in this template variable, like the built-in Chart
+// sub-modes fill in its instructions.
+const SUB_MODE_VARIABLE = 'input';
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+interface CustomMode {
+  id: string;
+  name: string;
+  emoji: string;
+  // Prompt with {{variable}} placeholders that are asked for before running.
+  template: string;
+  renderer: RendererName;
+  // Preset values for {{input}}, keyed by label.
+  subModes: Record<string, string>;
+  // Function declaration offered to the model, or null to offer all of them.
+  functionName: FunctionName | null;
+}
+
+const functionNames = functions.map(({name}) => name as FunctionName);
+
+const newModeId = () => crypto.randomUUID();
+
+const createCustomMode = (fields: Partial<CustomMode> = {}): CustomMode => ({
+  id: newModeId(),
+  name: '',
+  emoji: '✨',
+  template: '',
+  renderer: 'list',
+  subModes: {},
+  functionName: 'set_timecodes',
+  ...fields,
+});
+
+const duplicateCustomMode = (mode: CustomMode): CustomMode => ({
+  ...mode,
+  subModes: {...mode.subModes},
+  id: newModeId(),
+  name: `${mode.name} (copy)`,
+});
+
+// Built-in inputs become template variables of the same name.
+const customModeFromBuiltIn = (name: string, mode: Mode) =>
+  createCustomMode({
+    name: `${name} (copy)`,
+    emoji: mode.emoji,
+    template: mode.prompt(
+      Object.fromEntries(mode.inputs.map(({name}) => [name, `{{${name}}}`])),
+    ),
+    renderer: mode.renderer,
+    subModes: {
+      ...mode.inputs.find(({name}) => name === SUB_MODE_VARIABLE)?.presets,
+    },
+    functionName: mode.functions.length === 1 ? mode.functions[0] : null,
+  });
+
+// Variable names in order of first appearance.
+const templateVariables = (template: string) => [
+  ...new Set(
+    [...template.matchAll(VARIABLE_PATTERN)].map(([, variable]) => variable),
+  ),
+];
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(
+    VARIABLE_PATTERN,
+    (_, variable: string) => values[variable]?.trim() ?? '',
+  );
+
+// Custom modes run through the same Mode interface as the built-in ones.
+function customModeToMode(mode: CustomMode): Mode {
+  const hasSubModes = Object.keys(mode.subModes).length > 0;
+  return {
+    emoji: mode.emoji,
+    inputs: templateVariables(mode.template).map((name) => ({
+      name,
+      label: name,
+      ...(name === SUB_MODE_VARIABLE && hasSubModes
+        ? {presets: mode.subModes}
+        : {}),
+    })),
+    prompt: (values) => fillTemplate(mode.template, values),
+    functions: mode.functionName
+      ? [mode.functionName]
+      : rendererResults[mode.renderer],
+    renderer: mode.renderer,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Modes saved before renderers existed only had an isList flag. Entries that
+// aren't objects come back empty, so validateCustomMode rejects them.
+function upgradeCustomMode(entry: unknown): Partial<CustomMode> {
+  if (!isRecord(entry)) return {};
+  if ('renderer' in entry) return entry as Partial<CustomMode>;
+  const {isList, ...rest} = entry;
+  return {...rest, renderer: isList === true ? 'list' : 'prose'};
+}
+
+// Returns a list of problems; an empty list means the mode is usable.
+function validateCustomMode(mode: Partial<CustomMode>): string[] {
+  const problems: string[] = [];
+  if (typeof mode.id !== 'string' || !mode.id) problems.push('missing id');
+  if (typeof mode.name !== 'string' || !mode.name.trim()) {
+    problems.push('missing name');
+  }
+  if (typeof mode.emoji !== 'string') problems.push('emoji must be text');
+  if (typeof mode.template !== 'string' || !mode.template.trim()) {
+    problems.push('missing prompt template');
+  }
+  if (!RENDERER_NAMES.includes(mode.renderer)) {
+    problems.push(
+      `unknown renderer "${mode.renderer}" (expected one of ${RENDERER_NAMES.join(', ')})`,
+    );
+  }
+  if (
+    typeof mode.subModes !== 'object' ||
+    mode.subModes === null ||
+    Object.values(mode.subModes).some((value) => typeof value !== 'string')
+  ) {
+    problems.push('subModes must map labels to text');
+  }
+  if (
+    mode.functionName !== null &&
+    !functionNames.includes(mode.functionName)
+  ) {
+    problems.push(
+      `unknown function "${mode.functionName}" (expected one of ${functionNames.join(', ')})`,
+    );
+  } else if (
+    mode.functionName &&
+    RENDERER_NAMES.includes(mode.renderer) &&
+    !rendererResults[mode.renderer].includes(mode.functionName)
+  ) {
+    problems.push(
+      `the ${mode.renderer} renderer can't display ${mode.functionName} results`,
+    );
+  }
+  return problems;
+}
+
+function loadCustomModes(): CustomMode[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored
+          .map(upgradeCustomMode)
+          .filter(
+            (mode): mode is CustomMode => validateCustomMode(mode).length === 0,
+          )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Persists the modes and notifies every subscriber, in the App and LiveChat.
+function saveCustomModes(customModes: CustomMode[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(customModes));
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+// Calls `listener` with the current modes whenever they change, including
+// from another tab. Returns the unsubscribe function.
+function onCustomModesChange(listener: (customModes: CustomMode[]) => void) {
+  const notify = () => listener(loadCustomModes());
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) notify();
+  };
+  window.addEventListener(CHANGE_EVENT, notify);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, notify);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+const exportCustomModes = (customModes: CustomMode[]) =>
+  JSON.stringify({version: EXPORT_VERSION, modes: customModes}, null, 2);
+
+/**
+ * Parses an exported modes file. Accepts either the export envelope or a bare
+ * array, and throws one error naming every invalid entry.
+ */
+function parseCustomModes(json: string): CustomMode[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`The file is not valid JSON: ${(e as Error).message}`);
+  }
+  const entries = Array.isArray(data)
+    ? data
+    : (data as {modes?: unknown})?.modes;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a list of modes under "modes".');
+  }
+
+  const imported = entries.map((entry) => {
+    const fields = upgradeCustomMode(entry);
+    return createCustomMode({...fields, id: fields.id || newModeId()});
+  });
+  const problems = imported
+    .map((mode, i) => {
+      const modeProblems = validateCustomMode(mode);
+      return modeProblems.length > 0
+        ? `mode ${i + 1} (${mode.name || 'unnamed'}): ${modeProblems.join(', ')}`
+        : null;
+    })
+    .filter(Boolean);
+  if (problems.length > 0) {
+    throw new Error(`Invalid modes: ${problems.join('; ')}.`);
+  }
+  return imported;
+}
+
+// Imported modes replace existing ones with the same id.
+const mergeCustomModes = (existing: CustomMode[], imported: CustomMode[]) => [
+  ...existing.map((mode) => imported.find(({id}) => id === mode.id) ?? mode),
+  ...imported.filter(({id}) => !existing.some((mode) => mode.id === id)),
+];
+
+export {
+  createCustomMode,
+  customModeFromBuiltIn,
+  customModeToMode,
+  duplicateCustomMode,
+  exportCustomModes,
+  fillTemplate,
+  functionNames,
+  loadCustomModes,
+  mergeCustomModes,
+  onCustomModesChange,
+  parseCustomModes,
+  saveCustomModes,
+  SUB_MODE_VARIABLE,
+  templateVariables,
+  validateCustomMode,
+};
+export type {CustomMode};
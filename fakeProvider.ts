@@ -0,0 +1,455 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  CachedContent,
+  Content,
+  ContentListUnion,
+  CreateCachedContentConfig,
+  File as GenAIFile,
+  FileState,
+  FinishReason,
+  FunctionDeclaration,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+  PartUnion,
+  Schema,
+  Tool,
+  Type,
+} from '@google/genai';
+import type {AIProvider, ChatSession, YouTubeSearchResult} from './provider';
+import {delay, pcmToWav} from './utils';
+
+// Simulated latency, so loading, progress and cancel states can be exercised.
+const LATENCY_MS = 300;
+const STREAM_CHUNK_DELAY_MS = 40;
+const WORDS_PER_CHUNK = 3;
+const UPLOAD_STEPS = 5;
+
+const FILE_TTL_MS = 48 * 60 * 60 * 1000;
+const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+// Rough Gemini rates: about 4 characters per text token and a flat cost per
+// image; uploaded videos get a fixed size since the fake never decodes them.
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const FILE_TOKENS = 10_000;
+
+const FAKE_LIST_LENGTH = 3;
+const FAKE_SEARCH_RESULTS = 5;
+const FAKE_PLAYLIST_LENGTH = 4;
+const EMBEDDING_SIZE = 16;
+const SPEECH_SAMPLE_RATE = 24000;
+
+// FNV-1a, so the same input always produces the same output.
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Seeded PRNG (mulberry32) returning numbers in [0, 1).
+function seededRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Videos with IDs derived from `seed`, so a search or playlist always lists
+// the same ones.
+function fakeVideos(
+  seed: string,
+  count: number,
+  title: (index: number) => string,
+): YouTubeSearchResult[] {
+  const random = seededRandom(hashString(seed));
+  const alphabet =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  return Array.from({length: count}, (_, i) => {
+    const videoId = Array.from(
+      {length: 11},
+      () => alphabet[Math.floor(random() * alphabet.length)],
+    ).join('');
+    return {
+      videoId,
+      title: title(i),
+      thumbnailUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+    };
+  });
+}
+
+const toPart = (part: PartUnion): Part =>
+  typeof part === 'string' ? {text: part} : part;
+
+const isContent = (value: unknown): value is Content =>
+  typeof value === 'object' && value !== null && 'parts' in value;
+
+function toContents(contents: ContentListUnion): Content[] {
+  const items = Array.isArray(contents) ? contents : [contents];
+  if (items.every(isContent)) return items as Content[];
+  return [{role: 'user', parts: (items as PartUnion[]).map(toPart)}];
+}
+
+const partsOf = (contents: Content[]) =>
+  contents.flatMap((content) => content.parts ?? []);
+
+const textOf = (parts: Part[]) =>
+  parts
+    .map((part) => part.text)
+    .filter(Boolean)
+    .join(' ');
+
+const countContentTokens = (contents: Content[]) =>
+  partsOf(contents).reduce(
+    (sum, part) =>
+      sum +
+      (part.text
+        ? Math.ceil(part.text.length / CHARS_PER_TOKEN)
+        : part.inlineData
+          ? IMAGE_TOKENS
+          : part.fileData
+            ? FILE_TOKENS
+            : 0),
+    0,
+  );
+
+const formatFakeTime = (secs: number) =>
+  `${String(Math.floor(secs / 60)).padStart(2, '0')}:${String(
+    secs % 60,
+  ).padStart(2, '0')}`;
+
+// A box of random size somewhere in the frame, as [ymin, xmin, ymax, xmax].
+const fakeBox = (random: () => number) => {
+  const [ymin, xmin] = [random(), random()].map((n) => Math.floor(n * 800));
+  return [ymin, xmin, ymin + 100 + Math.floor(random() * 100), xmin + 150];
+};
+
+// Builds a value matching `schema`. List items get ascending "time" fields
+// 15 seconds apart, so timecode results look plausible.
+function fakeValue(
+  schema: Schema | undefined,
+  key: string,
+  index: number,
+  random: () => number,
+): unknown {
+  if (key === 'box_2d') return fakeBox(random);
+  switch (schema?.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [
+          name,
+          fakeValue(property, name, index, random),
+        ]),
+      );
+    case Type.ARRAY:
+      return Array.from({length: FAKE_LIST_LENGTH}, (_, i) =>
+        fakeValue(schema.items, key, i, random),
+      );
+    case Type.NUMBER:
+      return Math.round(random() * 1000) / 10;
+    case Type.INTEGER:
+      return Math.floor(random() * 100);
+    case Type.BOOLEAN:
+      return random() < 0.5;
+    default:
+      if (schema?.enum?.length) return schema.enum[index % schema.enum.length];
+      if (key === 'time') return formatFakeTime(index * 15);
+      if (key === 'end') return formatFakeTime(index * 15 + 10);
+      return `Fake ${key} ${index + 1}`;
+  }
+}
+
+// The declaration the prompt names (the longest match, since names share
+// prefixes), like the mode prompts do.
+const namedDeclaration = (
+  declarations: FunctionDeclaration[],
+  prompt: string,
+) =>
+  [...declarations]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find((declaration) => prompt.includes(declaration.name));
+
+const truncate = (text: string, length = 80) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+function toResponse(parts: Part[]): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [
+    {
+      content: {role: 'model', parts},
+      finishReason: FinishReason.STOP,
+      index: 0,
+    },
+  ];
+  return response;
+}
+
+// Text answers are streamed a few words at a time; function calls arrive
+// whole, as they do from Gemini.
+async function* streamParts(
+  parts: Part[],
+  signal?: AbortSignal,
+): AsyncGenerator<GenerateContentResponse> {
+  const text = parts.length === 1 ? parts[0].text : undefined;
+  if (text === undefined) {
+    yield toResponse(parts);
+    return;
+  }
+  const words = text.match(/\S+\s*/g) ?? [text];
+  for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+    await delay(STREAM_CHUNK_DELAY_MS, signal);
+    yield toResponse([{text: words.slice(i, i + WORDS_PER_CHUNK).join('')}]);
+  }
+}
+
+/**
+ * Offline provider with deterministic output: the same request always gets
+ * the same answer. Function calls are filled in from the declaration schema,
+ * JSON responses from the response schema, and everything else gets a canned
+ * text reply. Files and caches only live in memory.
+ */
+function createFakeProvider(): AIProvider {
+  const files = new Map<string, GenAIFile>();
+  const caches = new Map<
+    string,
+    {cache: CachedContent; config?: CreateCachedContentConfig}
+  >();
+  let cacheCount = 0;
+
+  const getCache = (name: string) => {
+    const entry = caches.get(name);
+    if (!entry || new Date(entry.cache.expireTime).getTime() <= Date.now()) {
+      throw new Error(`Cached content ${name} not found (404).`);
+    }
+    return entry;
+  };
+
+  const expireTimeFor = (ttl?: string) =>
+    new Date(
+      Date.now() + (parseFloat(ttl ?? '') || DEFAULT_CACHE_TTL_SECONDS) * 1000,
+    ).toISOString();
+
+  function respond({model, contents, config}: GenerateContentParameters) {
+    const allContents = toContents(contents);
+    const lastTurn = partsOf(allContents.slice(-1));
+    const prompt = textOf(lastTurn);
+    const random = seededRandom(hashString(`${model}|${prompt}`));
+
+    const cached = config?.cachedContent
+      ? getCache(config.cachedContent).config
+      : undefined;
+    const declarations = ((config?.tools ?? cached?.tools ?? []) as Tool[])
+      .flatMap((tool) => tool.functionDeclarations ?? [])
+      .filter((declaration) => declaration.name);
+    // Video caches declare every function, and their instruction asks for
+    // text unless the prompt names one.
+    const declaration =
+      namedDeclaration(declarations, prompt) ??
+      (config?.tools ? declarations[0] : undefined);
+    if (declaration) {
+      return [
+        {
+          functionCall: {
+            name: declaration.name,
+            args: fakeValue(
+              declaration.parameters,
+              declaration.name,
+              0,
+              random,
+            ) as Record<string, unknown>,
+          },
+        },
+      ];
+    }
+
+    if (config?.responseMimeType === 'application/json') {
+      return [
+        {
+          text: JSON.stringify(
+            fakeValue(config.responseSchema as Schema, 'value', 0, random),
+          ),
+        },
+      ];
+    }
+
+    const attachments = lastTurn.filter((part) => !part.text).length;
+    return [
+      {
+        text: `This is a canned reply from the offline fake provider (${model}). \
+You said: "${truncate(prompt)}"${
+          attachments > 0 ? ` with ${attachments} attachment(s)` : ''
+        }. Set AI_PROVIDER=gemini for real answers.`,
+      },
+    ];
+  }
+
+  function createChat(model: string, history: Content[] = []): ChatSession {
+    const turns = [...history];
+    return {
+      getHistory: () => [...turns],
+      async sendMessageStream({message, config}) {
+        const userContent: Content = {
+          role: 'user',
+          parts: (Array.isArray(message) ? message : [message]).map(toPart),
+        };
+        const parts = respond({
+          model,
+          contents: [...turns, userContent],
+          config,
+        });
+        await delay(LATENCY_MS, config?.abortSignal);
+        const chunks = streamParts(parts, config?.abortSignal);
+        return (async function* () {
+          const contents: Content[] = [];
+          for await (const chunk of chunks) {
+            contents.push(chunk.candidates[0].content);
+            yield chunk;
+          }
+          // Like the real chat, only completed turns are recorded, with a
+          // model content per streamed chunk.
+          turns.push(userContent, ...contents);
+        })();
+      },
+    };
+  }
+
+  return {
+    name: 'fake',
+
+    createChat,
+
+    async generateContent(params) {
+      await delay(LATENCY_MS, params.config?.abortSignal);
+      return toResponse(respond(params));
+    },
+
+    async generateContentStream(params) {
+      const parts = respond(params);
+      await delay(LATENCY_MS, params.config?.abortSignal);
+      return streamParts(parts, params.config?.abortSignal);
+    },
+
+    countTokens: async ({contents}) => countContentTokens(toContents(contents)),
+
+    async uploadFile(file, {signal, onProgress} = {}) {
+      for (let step = 0; step <= UPLOAD_STEPS; step++) {
+        onProgress?.(Math.round((file.size * step) / UPLOAD_STEPS), file.size);
+        if (step < UPLOAD_STEPS) {
+          await delay(LATENCY_MS / UPLOAD_STEPS, signal);
+        }
+      }
+      const id = `fake-${hashString(
+        `${file.name}|${file.size}|${file.lastModified}`,
+      ).toString(36)}`;
+      const now = Date.now();
+      const uploaded: GenAIFile = {
+        name: `files/${id}`,
+        displayName: file.name,
+        mimeType: file.type,
+        sizeBytes: String(file.size),
+        uri: `fake://files/${id}`,
+        state: FileState.ACTIVE,
+        createTime: new Date(now).toISOString(),
+        expirationTime: new Date(now + FILE_TTL_MS).toISOString(),
+      };
+      files.set(uploaded.name, uploaded);
+      return {...uploaded};
+    },
+
+    async getFile(name, signal) {
+      await delay(0, signal);
+      const file = files.get(name);
+      if (!file) throw new Error(`File ${name} not found (404).`);
+      return {...file};
+    },
+
+    async deleteFile(name) {
+      if (!files.delete(name)) {
+        throw new Error(`File ${name} not found (404).`);
+      }
+    },
+
+    async createCache({model, config}) {
+      const cache: CachedContent = {
+        name: `cachedContents/fake-${++cacheCount}`,
+        displayName: config?.displayName,
+        model,
+        expireTime: expireTimeFor(config?.ttl),
+      };
+      caches.set(cache.name, {cache, config});
+      return {...cache};
+    },
+
+    async updateCache({name, config}) {
+      const entry = getCache(name);
+      entry.cache = {...entry.cache, expireTime: expireTimeFor(config?.ttl)};
+      return {...entry.cache};
+    },
+
+    async deleteCache(name) {
+      if (!caches.delete(name)) {
+        throw new Error(`Cached content ${name} not found (404).`);
+      }
+    },
+
+    async searchVideos(model, query, signal) {
+      await delay(LATENCY_MS, signal);
+      return fakeVideos(
+        query,
+        FAKE_SEARCH_RESULTS,
+        (i) => `${truncate(query, 40)} (fake result ${i + 1})`,
+      );
+    },
+
+    async listPlaylistVideos(playlistId, signal) {
+      await delay(LATENCY_MS, signal);
+      return fakeVideos(
+        playlistId,
+        FAKE_PLAYLIST_LENGTH,
+        (i) => `Playlist ${truncate(playlistId, 20)}, video ${i + 1}`,
+      );
+    },
+
+    // A soft tone whose pitch depends on the voice and whose length follows
+    // the text, standing in for real speech.
+    async synthesizeSpeech(model, text, voice, signal) {
+      await delay(LATENCY_MS, signal);
+      const seconds = Math.min(5, 0.5 + text.length * 0.03);
+      const frequency = 180 + (hashString(voice) % 120);
+      const samples = new Int16Array(Math.round(seconds * SPEECH_SAMPLE_RATE));
+      samples.forEach((_, i) => {
+        const t = i / SPEECH_SAMPLE_RATE;
+        const fade = Math.min(1, t * 20, (seconds - t) * 20);
+        samples[i] = Math.round(
+          Math.sin(2 * Math.PI * frequency * t) * fade * 0.2 * 0x7fff,
+        );
+      });
+      return pcmToWav(new Uint8Array(samples.buffer), SPEECH_SAMPLE_RATE);
+    },
+
+    // Unit-length vectors seeded by the text, so equal texts compare equal.
+    async embed(model, texts, signal) {
+      await delay(0, signal);
+      return texts.map((text) => {
+        const random = seededRandom(hashString(`${model}|${text}`));
+        const vector = Array.from(
+          {length: EMBEDDING_SIZE},
+          () => random() * 2 - 1,
+        );
+        const norm = Math.hypot(...vector);
+        return vector.map((value) => value / norm);
+      });
+    },
+  };
+}
+
+export {createFakeProvider};
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {File as GenAIFile} from '@google/genai';
+import {createObjectStore} from './idb';
+
+const withStore = createObjectStore('video-analyzer', 'uploadedFiles', 'hash');
+
+// Treat files as expired a little early so they don't vanish mid-request.
+const EXPIRY_MARGIN_MS = 30 * 60 * 1000;
+
+interface CachedFile {
+  // Base64 hash of the file contents, see hashFile.
+  hash: string;
+  file: GenAIFile;
+  uploadedAt: string;
+  lastUsedAt: string;
+}
+
+// Files are hashed a slice at a time, so a long video is never read into
+// memory whole.
+const HASH_SLICE_BYTES = 8 * 1024 * 1024;
+const DIGEST_BYTES = 32;
+
+// SHA-256 over the SHA-256 of each slice of the file.
+async function hashFile(file: Blob): Promise<string> {
+  const sliceCount = Math.max(1, Math.ceil(file.size / HASH_SLICE_BYTES));
+  const sliceDigests = new Uint8Array(sliceCount * DIGEST_BYTES);
+  for (let i = 0; i < sliceCount; i++) {
+    const slice = file.slice(i * HASH_SLICE_BYTES, (i + 1) * HASH_SLICE_BYTES);
+    const sliceDigest = await crypto.subtle.digest(
+      'SHA-256',
+      await slice.arrayBuffer(),
+    );
+    sliceDigests.set(new Uint8Array(sliceDigest), i * DIGEST_BYTES);
+  }
+  const digest = await crypto.subtle.digest('SHA-256', sliceDigests);
+  let binary = '';
+  new Uint8Array(digest).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+const isExpired = (entry: CachedFile, now = Date.now()) =>
+  !entry.file.expirationTime ||
+  new Date(entry.file.expirationTime).getTime() - EXPIRY_MARGIN_MS <= now;
+
+async function getCachedFile(hash: string): Promise<CachedFile | undefined> {
+  return withStore('readonly', (store) => store.get(hash));
+}
+
+async function putCachedFile(hash: string, file: GenAIFile) {
+  const now = new Date().toISOString();
+  await withStore('readwrite', (store) =>
+    store.put({hash, file, uploadedAt: now, lastUsedAt: now} as CachedFile),
+  );
+}
+
+async function touchCachedFile(entry: CachedFile) {
+  await withStore('readwrite', (store) =>
+    store.put({...entry, lastUsedAt: new Date().toISOString()}),
+  );
+}
+
+async function removeCachedFile(hash: string) {
+  await withStore('readwrite', (store) => store.delete(hash));
+}
+
+async function listCachedFiles(): Promise<CachedFile[]> {
+  const entries = await withStore<CachedFile[]>('readonly', (store) =>
+    store.getAll(),
+  );
+  return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+}
+
+export {
+  getCachedFile,
+  hashFile,
+  isExpired,
+  listCachedFiles,
+  putCachedFile,
+  removeCachedFile,
+  touchCachedFile,
+};
+export type {CachedFile};
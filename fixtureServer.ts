@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type {Plugin} from 'vite';
+
+const FIXTURE_ID = /^[0-9a-f]{64}$/;
+
+/**
+ * Dev server middleware that stores recorded API fixtures as JSON files in
+ * `dir`, one per request hash: GET /__fixtures/<hash> reads one and PUT
+ * writes it.
+ */
+function fixtureServer(dir: string): Plugin {
+  return {
+    name: 'fixture-server',
+    configureServer(server) {
+      server.middlewares.use('/__fixtures', async (req, res) => {
+        const id = (req.url ?? '').replace(/^\//, '');
+        if (!FIXTURE_ID.test(id)) {
+          res.statusCode = 400;
+          res.end('Invalid fixture id.');
+          return;
+        }
+        const file = path.join(dir, `${id}.json`);
+        try {
+          if (req.method === 'GET') {
+            res.setHeader('Content-Type', 'application/json');
+            res.end(await fs.readFile(file));
+          } else if (req.method === 'PUT') {
+            const chunks: Buffer[] = [];
+            for await (const chunk of req) chunks.push(chunk as Buffer);
+            await fs.mkdir(dir, {recursive: true});
+            await fs.writeFile(file, Buffer.concat(chunks));
+            res.statusCode = 204;
+            res.end();
+          } else {
+            res.statusCode = 405;
+            res.end();
+          }
+        } catch (e) {
+          const notFound = (e as NodeJS.ErrnoException).code === 'ENOENT';
+          res.statusCode = notFound ? 404 : 500;
+          res.end(notFound ? 'No such fixture.' : (e as Error).message);
+        }
+      });
+    },
+  };
+}
+
+export {fixtureServer};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {FixtureStoreName} from './config';
+import {createObjectStore} from './idb';
+
+// A recorded provider call: the normalized request and either its response
+// or the message of the error it failed with.
+interface Fixture {
+  hash: string;
+  operation: string;
+  request: unknown;
+  response?: unknown;
+  error?: string;
+  recordedAt: string;
+}
+
+interface FixtureStore {
+  get(hash: string): Promise<Fixture | undefined>;
+  put(fixture: Fixture): Promise<void>;
+}
+
+// Dev server route backed by the fixtures/ folder, see fixtureServer.ts.
+const FIXTURE_ROUTE = '/__fixtures';
+
+// Fields that differ between otherwise identical requests.
+const VOLATILE_KEYS = new Set(['abortSignal', 'signal', 'onProgress']);
+
+/**
+ * Reduces a request to plain JSON with sorted keys, so equal requests hash
+ * the same. Signals and callbacks are dropped and files are described by
+ * name, size and type.
+ */
+function normalizeRequest(value: unknown): unknown {
+  if (value instanceof Blob) {
+    return {
+      name: value instanceof File ? value.name : undefined,
+      size: value.size,
+      type: value.type,
+    };
+  }
+  if (Array.isArray(value)) return value.map(normalizeRequest);
+  if (typeof value === 'function') return undefined;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter((key) => !VOLATILE_KEYS.has(key))
+        .sort()
+        .map((key) => [key, normalizeRequest(value[key])])
+        .filter(([, entry]) => entry !== undefined),
+    );
+  }
+  return value;
+}
+
+async function hashRequest(normalized: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(normalized)),
+  );
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function createIndexedDbFixtureStore(): FixtureStore {
+  const withStore = createObjectStore(
+    'video-analyzer-fixtures',
+    'fixtures',
+    'hash',
+  );
+  return {
+    get: (hash) => withStore('readonly', (store) => store.get(hash)),
+    async put(fixture) {
+      await withStore('readwrite', (store) => store.put(fixture));
+    },
+  };
+}
+
+function createDiskFixtureStore(): FixtureStore {
+  return {
+    async get(hash) {
+      const response = await fetch(`${FIXTURE_ROUTE}/${hash}`);
+      if (response.status === 404) return undefined;
+      if (!response.ok) {
+        throw new Error(
+          `Could not read fixture ${hash} (HTTP ${response.status}). Disk fixtures need the dev server (npm run dev).`,
+        );
+      }
+      return response.json();
+    },
+    async put(fixture) {
+      const response = await fetch(`${FIXTURE_ROUTE}/${fixture.hash}`, {
+        method: 'PUT',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify(fixture, null, 2),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Could not write fixture ${fixture.hash} (HTTP ${response.status}). Disk fixtures need the dev server (npm run dev).`,
+        );
+      }
+    },
+  };
+}
+
+const createFixtureStore = (name: FixtureStoreName): FixtureStore =>
+  name === 'disk' ? createDiskFixtureStore() : createIndexedDbFixtureStore();
+
+export {createFixtureStore, FIXTURE_ROUTE, hashRequest, normalizeRequest};
+export type {Fixture, FixtureStore};
@@ -32,6 +32,12 @@ const functions: FunctionDeclaration[] = [
             properties: {
               time: {
                 type: Type.STRING,
+                description: 'When it happens, or starts if it lasts',
+              },
+              end: {
+                type: Type.STRING,
+                description:
+                  'When it ends, for something that lasts, like a scene or a shot',
               },
               text: {
                 type: Type.STRING,
@@ -58,6 +64,12 @@ const functions: FunctionDeclaration[] = [
             properties: {
               time: {
                 type: Type.STRING,
+                description: 'When it happens, or starts if it lasts',
+              },
+              end: {
+                type: Type.STRING,
+                description:
+                  'When it ends, for something that lasts, like a scene or a shot',
               },
               text: {
                 type: Type.STRING,
@@ -90,6 +102,12 @@ const functions: FunctionDeclaration[] = [
             properties: {
               time: {
                 type: Type.STRING,
+                description: 'When it happens, or starts if it lasts',
+              },
+              end: {
+                type: Type.STRING,
+                description:
+                  'When it ends, for something that lasts, like a scene or a shot',
               },
               value: {
                 type: Type.NUMBER,
@@ -102,6 +120,104 @@ const functions: FunctionDeclaration[] = [
       required: ['timecodes'],
     },
   },
+  {
+    name: 'set_chapters',
+    description:
+      'Set the chapters of the video, in order, each with its start time and a short title',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timecodes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              time: {
+                type: Type.STRING,
+              },
+              title: {
+                type: Type.STRING,
+              },
+            },
+            required: ['time', 'title'],
+          },
+        },
+      },
+      required: ['timecodes'],
+    },
+  },
+  {
+    name: 'set_timecodes_with_boxes',
+    description:
+      'Set the timecodes for the video where objects are visible, each with the object label and its bounding box in that frame',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timecodes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              time: {
+                type: Type.STRING,
+              },
+              label: {
+                type: Type.STRING,
+              },
+              box_2d: {
+                type: Type.ARRAY,
+                description:
+                  'Bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000',
+                items: {
+                  type: Type.INTEGER,
+                },
+                minItems: '4',
+                maxItems: '4',
+              },
+            },
+            required: ['time', 'label', 'box_2d'],
+          },
+        },
+      },
+      required: ['timecodes'],
+    },
+  },
+  {
+    name: 'set_transcript',
+    description:
+      'Set the transcript of the speech in the video, as segments each spoken by one speaker from a start time to an end time',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timecodes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              time: {
+                type: Type.STRING,
+                description: 'Start of the segment',
+              },
+              end: {
+                type: Type.STRING,
+                description: 'End of the segment',
+              },
+              speaker: {
+                type: Type.STRING,
+                description:
+                  'The same label for every segment by the same speaker, their name if it is said or shown, otherwise "Speaker 1", "Speaker 2" and so on',
+              },
+              text: {
+                type: Type.STRING,
+              },
+            },
+            required: ['time', 'end', 'speaker', 'text'],
+          },
+        },
+      },
+      required: ['timecodes'],
+    },
+  },
 ];
 
 export default functions;
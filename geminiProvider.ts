@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {GoogleGenAI, Modality, Type} from '@google/genai';
+import type {AIProvider, YouTubeSearchResult} from './provider';
+import {resumableUpload} from './upload';
+import {pcmToWav} from './utils';
+
+// The TTS models return raw 16-bit PCM at this rate.
+const TTS_SAMPLE_RATE = 24000;
+// The YouTube Data API pages playlists by at most 50 items; longer playlists
+// are cut off after this many videos.
+const PLAYLIST_PAGE_SIZE = 50;
+const MAX_PLAYLIST_VIDEOS = 200;
+
+// The SDK insists on a key in the browser. The proxy drops it and attaches
+// the real one.
+const PROXY_API_KEY = 'proxy';
+
+const base64ToBytes = (data: string) =>
+  Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+// Adapter for the Gemini API through @google/genai, sending every request to
+// the API proxy at `proxyUrl`.
+function createGeminiProvider(proxyUrl: string): AIProvider {
+  const client = new GoogleGenAI({
+    apiKey: PROXY_API_KEY,
+    httpOptions: {baseUrl: proxyUrl},
+  });
+  const uploadEndpoint = `${proxyUrl}/upload/v1beta/files`;
+
+  return {
+    name: 'gemini',
+
+    createChat: (model, history) => client.chats.create({model, history}),
+
+    generateContent: (params) => client.models.generateContent(params),
+
+    generateContentStream: (params) =>
+      client.models.generateContentStream(params),
+
+    countTokens: async (params) =>
+      (await client.models.countTokens(params)).totalTokens ?? 0,
+
+    uploadFile: (file, {signal, onProgress} = {}) =>
+      resumableUpload(file, {endpoint: uploadEndpoint, signal, onProgress}),
+
+    getFile: (name, signal) =>
+      client.files.get({name, config: {abortSignal: signal}}),
+
+    deleteFile: async (name) => {
+      await client.files.delete({name});
+    },
+
+    createCache: (params) => client.caches.create(params),
+
+    updateCache: (params) => client.caches.update(params),
+
+    deleteCache: async (name) => {
+      await client.caches.delete({name});
+    },
+
+    async searchVideos(model, query, signal) {
+      const response = await client.models.generateContent({
+        model,
+        contents: `Find 5 relevant YouTube videos about "${query}". Provide the video ID, title, and thumbnail URL for each.`,
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                videoId: {
+                  type: Type.STRING,
+                  description: 'The 11-character YouTube video ID.',
+                },
+                title: {
+                  type: Type.STRING,
+                  description: 'The title of the YouTube video.',
+                },
+                thumbnailUrl: {
+                  type: Type.STRING,
+                  description:
+                    'The URL for the video thumbnail image, typically from i.ytimg.com.',
+                },
+              },
+              required: ['videoId', 'title', 'thumbnailUrl'],
+            },
+          },
+        },
+      });
+
+      const result = JSON.parse(response.text.trim());
+      if (!Array.isArray(result)) {
+        throw new Error('API did not return a valid array of search results.');
+      }
+      return result as YouTubeSearchResult[];
+    },
+
+    // Pages through the playlist with the YouTube Data API, which the proxy
+    // serves under /youtube with its own key.
+    async listPlaylistVideos(playlistId, signal) {
+      const videos: YouTubeSearchResult[] = [];
+      let pageToken: string | undefined;
+      do {
+        const params = new URLSearchParams({
+          part: 'snippet',
+          maxResults: String(PLAYLIST_PAGE_SIZE),
+          playlistId,
+          ...(pageToken ? {pageToken} : {}),
+        });
+        const response = await fetch(
+          `${proxyUrl}/youtube/v3/playlistItems?${params}`,
+          {signal},
+        );
+        const page = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(
+            `YouTube Data API error (HTTP ${response.status}): ${
+              page.error?.message ?? response.statusText
+            }`,
+          );
+        }
+        for (const {snippet} of page.items ?? []) {
+          // Deleted and private videos stay listed, without thumbnails.
+          const thumbnails = snippet?.thumbnails ?? {};
+          const thumbnail = thumbnails.medium ?? thumbnails.default;
+          if (!snippet?.resourceId?.videoId || !thumbnail) continue;
+          videos.push({
+            videoId: snippet.resourceId.videoId,
+            title: snippet.title,
+            thumbnailUrl: thumbnail.url,
+          });
+        }
+        pageToken = page.nextPageToken;
+      } while (pageToken && videos.length < MAX_PLAYLIST_VIDEOS);
+      return videos.slice(0, MAX_PLAYLIST_VIDEOS);
+    },
+
+    async synthesizeSpeech(model, text, voice, signal) {
+      const response = await client.models.generateContent({
+        model,
+        contents: text,
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {prebuiltVoiceConfig: {voiceName: voice}},
+          },
+        },
+      });
+      const audio =
+        response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!audio) {
+        throw new Error('The model did not return any audio.');
+      }
+      return pcmToWav(base64ToBytes(audio), TTS_SAMPLE_RATE);
+    },
+
+    async embed(model, texts, signal) {
+      const response = await client.models.embedContent({
+        model,
+        contents: texts,
+        config: {abortSignal: signal},
+      });
+      return (response.embeddings ?? []).map(({values}) => values ?? []);
+    },
+  };
+}
+
+export {createGeminiProvider};
@@ -17,54 +17,223 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export default {
+import functions from './functions';
+import {FunctionName, MIN_CHAPTER_SECS} from './results';
+
+// How a mode's result is displayed in the analyzer.
+type RendererName =
+  | 'prose'
+  | 'list'
+  | 'table'
+  | 'chart'
+  | 'chapters'
+  | 'boxes'
+  | 'transcript';
+
+const RENDERER_NAMES: RendererName[] = [
+  'prose',
+  'list',
+  'table',
+  'chart',
+  'chapters',
+  'boxes',
+  'transcript',
+];
+
+// Function results each renderer can display.
+const rendererResults: Record<RendererName, FunctionName[]> = {
+  prose: ['set_timecodes', 'set_timecodes_with_objects'],
+  list: ['set_timecodes', 'set_timecodes_with_objects'],
+  table: ['set_timecodes_with_objects'],
+  chart: ['set_timecodes_with_numeric_values'],
+  chapters: ['set_chapters'],
+  boxes: ['set_timecodes_with_boxes'],
+  transcript: ['set_transcript'],
+};
+
+// Used when the model calls a function the mode's renderer can't display.
+const fallbackRenderers: Record<FunctionName, RendererName> = {
+  set_timecodes: 'prose',
+  set_timecodes_with_objects: 'table',
+  set_timecodes_with_numeric_values: 'chart',
+  set_chapters: 'chapters',
+  set_timecodes_with_boxes: 'boxes',
+  set_transcript: 'transcript',
+};
+
+interface ModeInput {
+  // Key of the value passed to the prompt.
+  name: string;
+  label: string;
+  // Preset values keyed by label. They are offered next to a 'Custom'
+  // choice that takes free text.
+  presets?: Record<string, string>;
+}
+
+interface Mode {
+  emoji: string;
+  // Values the user provides before the mode can run.
+  inputs: ModeInput[];
+  prompt: (values: Record<string, string>) => string;
+  // Declarations offered to the model. The one it calls determines the
+  // result type.
+  functions: FunctionName[];
+  renderer: RendererName;
+}
+
+// A mode as offered in the mode list. Built-in modes are keyed by name and
+// custom modes by id, so renaming one keeps it selected.
+interface ModeOption {
+  key: string;
+  name: string;
+  mode: Mode;
+  customModeId?: string;
+}
+
+const modes: Record<string, Mode> = {
   'A/V captions': {
     emoji: '👀',
-    prompt: `Generate captions for each scene in this video. Describe the visuals and include any spoken text in quotation marks. For each caption, provide the start time. Format the output as a list, like this:
-[00:15] - A person walks into the room.
-[00:22] - "Hello there!"`,
-    isList: true,
+    inputs: [],
+    prompt:
+      () => `Generate captions for each scene in this video. Describe the visuals and include any spoken text in quotation marks. For each caption, provide the start time and the end time of the scene. Format the output as a list, like this:
+[00:15-00:21] - A person walks into the room.
+[00:22-00:25] - "Hello there!"`,
+    functions: ['set_timecodes'],
+    renderer: 'list',
   },
 
   Paragraph: {
     emoji: '📝',
-    prompt: `Generate a paragraph that summarizes this video. Keep it to 3 to 5 sentences. At the end of each sentence, include the relevant timestamp from the video in brackets, like this: [00:45].`,
+    inputs: [],
+    prompt: () =>
+      `Generate a paragraph that summarizes this video. Keep it to 3 to 5 sentences. At the end of each sentence, include the relevant timestamp from the video in brackets, like this: [00:45].`,
+    functions: ['set_timecodes'],
+    renderer: 'prose',
   },
 
   'Key moments': {
     emoji: '🔑',
-    prompt: `Generate a bulleted list of key moments from the video. For each bullet point, include the relevant timestamp from the video. Format it like this:
+    inputs: [],
+    prompt:
+      () => `Generate a bulleted list of key moments from the video. For each bullet point, include the relevant timestamp from the video. Format it like this:
 - [01:10] The main character discovers the hidden treasure.`,
-    isList: true,
+    functions: ['set_timecodes'],
+    renderer: 'list',
   },
 
   Table: {
     emoji: '🤓',
-    prompt: `Create a markdown table of 5 key shots from this video. The table should have three columns: "Timecode", "Description" (10 words or less), and "Objects" (a list of visible objects with emojis).`,
+    inputs: [],
+    prompt: () =>
+      `Create a markdown table of 5 key shots from this video. The table should have three columns: "Timecode", "Description" (10 words or less), and "Objects" (a list of visible objects with emojis). Give each shot's start time and end time.`,
+    functions: ['set_timecodes_with_objects'],
+    renderer: 'table',
   },
 
   Haiku: {
     emoji: '🌸',
-    prompt: `Generate a haiku about the video. After each line, provide the most relevant timestamp from the video in brackets, like this: [00:30]. Make sure to follow the 5-7-5 syllable rule.`,
+    inputs: [],
+    prompt: () =>
+      `Generate a haiku about the video. After each line, provide the most relevant timestamp from the video in brackets, like this: [00:30]. Make sure to follow the 5-7-5 syllable rule.`,
+    functions: ['set_timecodes'],
+    renderer: 'prose',
   },
 
   Chart: {
     emoji: '📈',
-    prompt: (input: string) =>
-      `Generate chart data for this video based on the following instructions: ${input}. Call set_timecodes_with_numeric_values once with the list of data values and timecodes.`,
-    subModes: {
-      Excitement:
-        'for each scene, estimate the level of excitement on a a scale of 1 to 10',
-      Importance:
-        'for each scene, estimate the level of overall importance to the video on a scale of 1 to 10',
-      'Number of people': 'for each scene, count the number of people visible',
-    },
+    inputs: [
+      {
+        name: 'input',
+        label: 'Describe what to chart',
+        presets: {
+          Excitement:
+            'for each scene, estimate the level of excitement on a a scale of 1 to 10',
+          Importance:
+            'for each scene, estimate the level of overall importance to the video on a scale of 1 to 10',
+          'Number of people':
+            'for each scene, count the number of people visible',
+        },
+      },
+    ],
+    prompt: ({input}) =>
+      `Generate chart data for this video based on the following instructions: ${input}. Call set_timecodes_with_numeric_values once with the list of data values and timecodes, with the start and end time of each scene.`,
+    functions: ['set_timecodes_with_numeric_values'],
+    renderer: 'chart',
+  },
+
+  Chapters: {
+    emoji: '📑',
+    inputs: [],
+    prompt: () =>
+      `Split this video into chapters, the way a YouTube creator would. The first chapter starts at 00:00, chapters follow each other in order without overlapping, and each is at least ${MIN_CHAPTER_SECS} seconds long. Give each chapter a short title of a few words. Call set_chapters once with the start time and title of every chapter.`,
+    functions: ['set_chapters'],
+    renderer: 'chapters',
+  },
+
+  Transcript: {
+    emoji: '🎙️',
+    inputs: [],
+    prompt: () =>
+      `Transcribe all speech in this video word for word. Split it into segments of one or two sentences, each spoken by a single speaker, with the time the segment starts and ends. Tell the speakers apart by their voice and appearance and label each one consistently, with their name if it is said or shown on screen, otherwise "Speaker 1", "Speaker 2" and so on. Leave out visual descriptions. Call set_transcript once with every segment in order.`,
+    functions: ['set_transcript'],
+    renderer: 'transcript',
+  },
+
+  'Find objects': {
+    emoji: '🎯',
+    inputs: [
+      {
+        name: 'input',
+        label: 'Describe what to find',
+        presets: {
+          'Main objects': 'the main objects in each scene',
+          People: 'every person',
+          Vehicles: 'every vehicle',
+          'Text and signs': 'every sign, caption or piece of text',
+        },
+      },
+    ],
+    prompt: ({input}) =>
+      `Find ${input} in this video. Each time one appears, give the timecode, a short label and its bounding box in that frame as [ymin, xmin, ymax, xmax], normalized to 0-1000. Use one entry per object, so several objects at the same moment share a timecode. Call set_timecodes_with_boxes once with every entry.`,
+    functions: ['set_timecodes_with_boxes'],
+    renderer: 'boxes',
   },
 
   Custom: {
     emoji: '🔧',
-    prompt: (input: string) =>
+    inputs: [{name: 'input', label: 'Type a custom prompt'}],
+    prompt: ({input}) =>
       `Call set_timecodes once using the following instructions: ${input}`,
-    isList: true,
+    functions: ['set_timecodes'],
+    renderer: 'list',
   },
-} as const;
\ No newline at end of file
+};
+
+// Declarations from functions.ts to send with a mode's request.
+const modeFunctions = (mode: Mode) =>
+  functions.filter(({name}) => mode.functions.includes(name as FunctionName));
+
+// The renderer for a result, which is the mode's own unless the model called
+// a function that renderer can't display.
+const rendererFor = (mode: Mode, resultName: FunctionName): RendererName =>
+  rendererResults[mode.renderer].includes(resultName)
+    ? mode.renderer
+    : fallbackRenderers[resultName];
+
+// The mode's prompt with each input shown as [label], for the user to fill in.
+const promptOutline = (mode: Mode) =>
+  mode.prompt(
+    Object.fromEntries(
+      mode.inputs.map(({name, label}) => [name, `[${label}]`]),
+    ),
+  );
+
+export default modes;
+export {
+  modeFunctions,
+  promptOutline,
+  RENDERER_NAMES,
+  rendererFor,
+  rendererResults,
+};
+export type {Mode, ModeInput, ModeOption, RendererName};
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {Marker, resultMarkers, toEdl, toFcpxml, toOtio} from './nle';
+import type {FunctionResult} from './results';
+import {timecodeToSecs} from './timecode';
+
+const result: FunctionResult = {
+  name: 'set_timecodes',
+  timecodes: [
+    {time: '00:00', text: 'Cold open'},
+    {time: '00:05', text: 'Opening <shot> & "title"'},
+    {time: '01:02.5', text: 'Scene two'},
+    {time: '10:00.1', text: 'Ten minutes in'},
+    {time: '59:59.96', text: 'Just before the hour'},
+    {time: '1:00:03.27', text: 'After an hour'},
+  ],
+};
+const markers = resultMarkers(result);
+const reel = 'My clip (final).mp4';
+
+// The exact rate the NTSC choices stand for, e.g. 30000/1001 for 29.97.
+const exactRate = (fps: number) =>
+  Number.isInteger(fps) ? fps : (Math.round(fps) * 1000) / 1001;
+
+// Where each marker lands: its time rounded to a frame.
+const frameTimes = (fps: number) =>
+  markers.map(
+    ({startSecs}) => Math.round(startSecs * exactRate(fps)) / exactRate(fps),
+  );
+
+const edlTimes = (edl: string, fps: number) =>
+  [...edl.matchAll(/^\* LOC: (\S+) /gm)].map(([, smpte]) =>
+    timecodeToSecs(smpte, {fps: exactRate(fps)}),
+  );
+
+// FCPXML times are "0s" or "num/dens".
+const fcpxmlSecs = (time: string) => {
+  if (time === '0s') return 0;
+  const [num, den] = time.slice(0, -1).split('/').map(Number);
+  return num / den;
+};
+
+const fcpxmlTimes = (fcpxml: string) =>
+  [...fcpxml.matchAll(/<marker start="([^"]+)"/g)].map(([, time]) =>
+    fcpxmlSecs(time),
+  );
+
+const otioMarkers = (otio: string) =>
+  JSON.parse(otio).tracks.children[0].children[0].markers;
+
+const otioTimes = (otio: string) =>
+  otioMarkers(otio).map(
+    ({marked_range}) =>
+      marked_range.start_time.value / marked_range.start_time.rate,
+  );
+
+const FPS = [23.976, 29.97, 59.94, 24, 25, 30, 50, 60];
+
+describe('resultMarkers', () => {
+  it('names and sorts the entries', () => {
+    const sorted = resultMarkers({
+      name: 'set_timecodes',
+      timecodes: [
+        {time: '00:10', text: 'Second'},
+        {time: '00:01', text: ' First\n line '},
+      ],
+    });
+    expect(sorted).toEqual([
+      {startSecs: 1, endSecs: undefined, name: 'First line'},
+      {startSecs: 10, endSecs: undefined, name: 'Second'},
+    ]);
+  });
+
+  it('keeps the end of ranges', () => {
+    const [segment] = resultMarkers({
+      name: 'set_transcript',
+      timecodes: [{time: '00:02', end: '00:04.5', speaker: 'Ann', text: 'Hi'}],
+    });
+    expect(segment).toEqual({startSecs: 2, endSecs: 4.5, name: 'Ann: Hi'});
+  });
+});
+
+describe.each(FPS)('marker times at %s fps', (fps) => {
+  const options = {fps, reel, durationSecs: 3700};
+
+  it('round-trip through the EDL', () => {
+    const times = edlTimes(toEdl(markers, options), fps);
+    expect(times).toHaveLength(markers.length);
+    times.forEach((secs, i) => expect(secs).toBeCloseTo(frameTimes(fps)[i], 9));
+  });
+
+  it('round-trip through FCPXML', () => {
+    const times = fcpxmlTimes(toFcpxml(markers, options));
+    expect(times).toHaveLength(markers.length);
+    times.forEach((secs, i) => expect(secs).toBeCloseTo(frameTimes(fps)[i], 9));
+  });
+
+  it('round-trip through OpenTimelineIO', () => {
+    const times = otioTimes(toOtio(markers, options));
+    expect(times).toHaveLength(markers.length);
+    times.forEach((secs, i) => expect(secs).toBeCloseTo(frameTimes(fps)[i], 9));
+  });
+});
+
+describe('toEdl', () => {
+  it('writes a clip event and a LOC line per marker', () => {
+    const edl = toEdl(markers.slice(1, 3), {fps: 25, reel, durationSecs: 70});
+    expect(edl).toBe(
+      [
+        `TITLE: ${reel}`,
+        'FCM: NON-DROP FRAME',
+        '',
+        '001  MYCLIPFI V     C        00:00:00:00 00:01:10:00 00:00:00:00 00:01:10:00',
+        `* FROM CLIP NAME: ${reel}`,
+        '* LOC: 00:00:05:00 RED     Opening <shot> & "title"',
+        '* LOC: 00:01:02:13 RED     Scene two',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('ends the clip a second after the last marker without a duration', () => {
+    const edl = toEdl([{startSecs: 4, name: 'Only'}], {fps: 24, reel: 'a'});
+    expect(edl).toContain('00:00:00:00 00:00:05:00 00:00:00:00 00:00:05:00');
+  });
+});
+
+describe('toFcpxml', () => {
+  it('uses the exact NTSC frame duration', () => {
+    const fcpxml = toFcpxml(markers, {fps: 29.97, reel});
+    expect(fcpxml).toContain('<format id="r1" frameDuration="1001/30000s"/>');
+  });
+
+  it('escapes names', () => {
+    const fcpxml = toFcpxml(markers, {fps: 25, reel});
+    expect(fcpxml).toContain(
+      'value="Opening &lt;shot&gt; &amp; &quot;title&quot;"',
+    );
+  });
+
+  it('gives ranges their length and points a single frame', () => {
+    const ranged: Marker[] = [
+      {startSecs: 1, endSecs: 3, name: 'Range'},
+      {startSecs: 5, name: 'Point'},
+    ];
+    const fcpxml = toFcpxml(ranged, {fps: 25, reel});
+    expect(fcpxml).toContain('start="2500/2500s" duration="5000/2500s"');
+    expect(fcpxml).toContain('start="12500/2500s" duration="100/2500s"');
+  });
+});
+
+describe('toOtio', () => {
+  it('gives ranges their length and points none', () => {
+    const ranged: Marker[] = [
+      {startSecs: 1, endSecs: 3, name: 'Range'},
+      {startSecs: 5, name: 'Point'},
+    ];
+    const [range, point] = otioMarkers(toOtio(ranged, {fps: 24, reel}));
+    expect(range.marked_range.duration.value).toBe(48);
+    expect(point.marked_range.duration.value).toBe(0);
+    expect(point.marked_range.start_time).toEqual({
+      OTIO_SCHEMA: 'RationalTime.1',
+      rate: 24,
+      value: 120,
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Exports timecoded results as markers for editing software: a CMX3600 EDL,
+// an FCPXML project and an OpenTimelineIO timeline. Each holds one clip of
+// the whole video with a marker per entry, timed in frames.
+
+import type {FunctionResult} from './results';
+import {entryText, ResultEntry} from './subtitles';
+import {formatSmpte, timecodeToSecs} from './timecode';
+
+const NLE_FPS_CHOICES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+const DEFAULT_FPS = 25;
+// CMX3600 reel names are at most this long.
+const REEL_LENGTH = 8;
+
+interface Marker {
+  startSecs: number;
+  // Only for entries that last, like a scene.
+  endSecs?: number;
+  name: string;
+}
+
+interface NleOptions {
+  fps: number;
+  // The original file name, used as the source reel and clip name.
+  reel: string;
+  // Length of the video; without it the clip ends after the last marker.
+  durationSecs?: number;
+}
+
+/** A marker for every entry of a result, in order. */
+const resultMarkers = (result: FunctionResult): Marker[] =>
+  (result.timecodes as ResultEntry[])
+    .map((entry) => ({
+      startSecs: timecodeToSecs(entry.time),
+      endSecs: entry.end === undefined ? undefined : timecodeToSecs(entry.end),
+      name: entryText(result, entry).replace(/\s+/g, ' ').trim(),
+    }))
+    .sort((a, b) => a.startSecs - b.startSecs);
+
+// The NTSC choices stand for their exact rates, e.g. 29.97 for 30000/1001.
+const frameRate = (fps: number) =>
+  Number.isInteger(fps) ? fps : (Math.round(fps) * 1000) / 1001;
+
+const toFrames = (secs: number, fps: number) =>
+  Math.round(secs * frameRate(fps));
+
+// Frames of the clip: the whole video, or up to one second after the last
+// marker.
+function clipFrames(markers: Marker[], {fps, durationSecs}: NleOptions) {
+  const lastSecs = Math.max(
+    0,
+    ...markers.map(({startSecs, endSecs}) => endSecs ?? startSecs),
+  );
+  return Math.max(
+    1,
+    toFrames(durationSecs > 0 ? durationSecs : lastSecs + 1, fps),
+  );
+}
+
+// A marker lasts for its range, or a single frame.
+const markerFrames = ({startSecs, endSecs}: Marker, fps: number) =>
+  Math.max(1, toFrames((endSecs ?? startSecs) - startSecs, fps));
+
+const reelName = (reel: string) =>
+  reel
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^A-Za-z0-9_]+/g, '')
+    .toUpperCase()
+    .slice(0, REEL_LENGTH) || 'AX';
+
+/**
+ * A CMX3600 EDL with one event for the video and a LOC comment per marker,
+ * as Avid and Premiere read them. Record time starts at 00:00:00:00, so
+ * marker timecodes match the video's.
+ */
+function toEdl(markers: Marker[], options: NleOptions) {
+  const {fps, reel} = options;
+  const rate = frameRate(fps);
+  const end = formatSmpte(clipFrames(markers, options) / rate, rate);
+  const start = formatSmpte(0, rate);
+  return (
+    [
+      `TITLE: ${reel}`,
+      'FCM: NON-DROP FRAME',
+      '',
+      `001  ${reelName(reel).padEnd(REEL_LENGTH)} V     C        ${start} ${end} ${start} ${end}`,
+      `* FROM CLIP NAME: ${reel}`,
+      ...markers.map(
+        (marker) =>
+          `* LOC: ${formatSmpte(marker.startSecs, rate)} RED     ${marker.name}`,
+      ),
+    ].join('\n') + '\n'
+  );
+}
+
+// FCPXML times are rational seconds in multiples of the frame duration,
+// e.g. 1001/30000s at 29.97 fps.
+function frameDuration(fps: number) {
+  return Number.isInteger(fps)
+    ? {num: 100, den: fps * 100}
+    : {num: 1001, den: Math.round(fps) * 1000};
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** An FCPXML 1.9 project: the video on the timeline with its markers. */
+function toFcpxml(markers: Marker[], options: NleOptions) {
+  const {fps, reel} = options;
+  const {num, den} = frameDuration(fps);
+  const time = (frames: number) =>
+    frames === 0 ? '0s' : `${frames * num}/${den}s`;
+  const duration = time(clipFrames(markers, options));
+  const name = escapeXml(reel);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="${time(1)}"/>
+    <asset id="r2" name="${name}" src="${escapeXml(encodeURI(reel))}" start="0s" duration="${duration}" hasVideo="1" hasAudio="1" format="r1"/>
+  </resources>
+  <library>
+    <event name="Video analysis">
+      <project name="${name}">
+        <sequence format="r1" duration="${duration}" tcStart="0s" tcFormat="NDF">
+          <spine>
+            <asset-clip ref="r2" name="${name}" offset="0s" start="0s" duration="${duration}" format="r1" tcFormat="NDF">
+${markers
+  .map(
+    (marker) =>
+      `              <marker start="${time(toFrames(marker.startSecs, fps))}" duration="${time(markerFrames(marker, fps))}" value="${escapeXml(marker.name)}"/>`,
+  )
+  .join('\n')}
+            </asset-clip>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+}
+
+const rationalTime = (frames: number, fps: number) => ({
+  OTIO_SCHEMA: 'RationalTime.1',
+  rate: frameRate(fps),
+  value: frames,
+});
+
+const timeRange = (
+  startFrames: number,
+  durationFrames: number,
+  fps: number,
+) => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(startFrames, fps),
+  duration: rationalTime(durationFrames, fps),
+});
+
+/** An OpenTimelineIO timeline (.otio) with one video track. */
+function toOtio(markers: Marker[], options: NleOptions) {
+  const {fps, reel} = options;
+  const frames = clipFrames(markers, options);
+  const clip = {
+    OTIO_SCHEMA: 'Clip.1',
+    name: reel,
+    metadata: {},
+    source_range: timeRange(0, frames, fps),
+    effects: [],
+    markers: markers.map((marker) => ({
+      OTIO_SCHEMA: 'Marker.2',
+      name: marker.name,
+      metadata: {},
+      color: 'RED',
+      marked_range: timeRange(
+        toFrames(marker.startSecs, fps),
+        marker.endSecs === undefined ? 0 : markerFrames(marker, fps),
+        fps,
+      ),
+      comment: '',
+    })),
+    media_reference: {
+      OTIO_SCHEMA: 'ExternalReference.1',
+      name: reel,
+      metadata: {},
+      available_range: timeRange(0, frames, fps),
+      target_url: reel,
+    },
+  };
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: reel,
+    metadata: {},
+    global_start_time: null,
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      metadata: {},
+      source_range: null,
+      effects: [],
+      markers: [],
+      children: [
+        {
+          OTIO_SCHEMA: 'Track.1',
+          name: 'V1',
+          kind: 'Video',
+          metadata: {},
+          source_range: null,
+          effects: [],
+          markers: [],
+          children: [clip],
+        },
+      ],
+    },
+  };
+  return JSON.stringify(timeline, null, 2) + '\n';
+}
+
+export {DEFAULT_FPS, NLE_FPS_CHOICES, resultMarkers, toEdl, toFcpxml, toOtio};
+export type {Marker, NleOptions};
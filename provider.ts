@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  CachedContent,
+  Content,
+  CountTokensParameters,
+  CreateCachedContentParameters,
+  File as GenAIFile,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  SendMessageParameters,
+  UpdateCachedContentParameters,
+} from '@google/genai';
+import {AppConfig, config, ProviderName} from './config';
+import {createFakeProvider} from './fakeProvider';
+import {createFixtureStore} from './fixtures';
+import {createGeminiProvider} from './geminiProvider';
+import {createTrafficProvider} from './trafficProvider';
+
+// Requests and responses use the @google/genai shapes throughout the app, so
+// adapters for other backends translate to and from them.
+
+interface ChatSession {
+  sendMessageStream(
+    params: SendMessageParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>>;
+  getHistory(): Content[];
+}
+
+interface YouTubeSearchResult {
+  videoId: string;
+  title: string;
+  thumbnailUrl: string;
+}
+
+interface ProviderUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (bytesSent: number, totalBytes: number) => void;
+}
+
+interface AIProvider {
+  readonly name: ProviderName;
+  createChat(model: string, history?: Content[]): ChatSession;
+  generateContent(
+    params: GenerateContentParameters,
+  ): Promise<GenerateContentResponse>;
+  generateContentStream(
+    params: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>>;
+  countTokens(params: CountTokensParameters): Promise<number>;
+  // Uploads the bytes only; waiting for processing is up to the caller.
+  uploadFile(file: File, options?: ProviderUploadOptions): Promise<GenAIFile>;
+  getFile(name: string, signal?: AbortSignal): Promise<GenAIFile>;
+  deleteFile(name: string): Promise<void>;
+  createCache(params: CreateCachedContentParameters): Promise<CachedContent>;
+  updateCache(params: UpdateCachedContentParameters): Promise<CachedContent>;
+  deleteCache(name: string): Promise<void>;
+  searchVideos(
+    model: string,
+    query: string,
+    signal?: AbortSignal,
+  ): Promise<YouTubeSearchResult[]>;
+  // The videos of a YouTube playlist, in playlist order.
+  listPlaylistVideos(
+    playlistId: string,
+    signal?: AbortSignal,
+  ): Promise<YouTubeSearchResult[]>;
+  // Returns playable audio (WAV).
+  synthesizeSpeech(
+    model: string,
+    text: string,
+    voice: string,
+    signal?: AbortSignal,
+  ): Promise<Blob>;
+  embed(
+    model: string,
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<number[][]>;
+}
+
+function createProvider({provider, proxyUrl}: AppConfig): AIProvider {
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider(proxyUrl);
+    case 'fake':
+      return createFakeProvider();
+  }
+}
+
+let activeProvider: AIProvider | null = null;
+
+// The adapter selected in config, created on first use. In record and replay
+// mode it is wrapped by the fixture layer; replay never creates the real
+// adapter, so it needs neither network nor the proxy.
+function getProvider(): AIProvider {
+  if (!activeProvider) {
+    activeProvider =
+      config.trafficMode === 'off'
+        ? createProvider(config)
+        : createTrafficProvider(
+            config.trafficMode === 'replay' ? null : createProvider(config),
+            config.trafficMode,
+            createFixtureStore(config.fixtureStore),
+            config.provider,
+          );
+  }
+  return activeProvider;
+}
+
+export {createProvider, getProvider};
+export type {
+  AIProvider,
+  ChatSession,
+  ProviderUploadOptions,
+  YouTubeSearchResult,
+};
@@ -0,0 +1,503 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Local proxy that holds the Gemini API key, so the browser bundle never sees
+// it. The frontend's SDK client points its base URL at this server (through
+// the /api route of the Vite dev server); the proxy forwards the allowed
+// Gemini REST operations upstream with the key attached, rate limits each
+// client, caps request sizes and logs usage as JSON lines. Playlist listings
+// go to the YouTube Data API the same way, with a key of their own.
+//
+// Run with `npm run proxy`. Settings come from the environment or .env.local:
+//   GEMINI_API_KEY         required
+//   PROXY_PORT             default 8787
+//   PROXY_UPSTREAM         default https://generativelanguage.googleapis.com;
+//                          point it at `npm run stub-upstream` to test offline
+//   PROXY_RATE_LIMIT       requests per client per minute, default 60
+//   PROXY_MAX_BODY_BYTES   JSON request limit, default 20 MiB
+//   PROXY_MAX_UPLOAD_BYTES total size of one uploaded file, default 2 GiB
+//   PROXY_USAGE_LOG        optional file to append usage lines to
+//   YOUTUBE_API_KEY        key with the YouTube Data API v3 enabled; without
+//                          it playlists can't be listed
+//   PROXY_YOUTUBE_UPSTREAM default https://www.googleapis.com
+
+import {appendFile} from 'fs/promises';
+import http, {IncomingMessage, ServerResponse} from 'http';
+import {loadEnv} from 'vite';
+
+interface ProxyOptions {
+  apiKey: string;
+  upstream: string;
+  port: number;
+  rateLimitPerMinute: number;
+  maxBodyBytes: number;
+  maxUploadBytes: number;
+  usageLog?: string;
+  youtubeApiKey?: string;
+  youtubeUpstream: string;
+}
+
+interface Route {
+  operation: string;
+  methods: string[];
+  path: RegExp;
+  // Routes to the YouTube Data API instead of Gemini.
+  youtube?: boolean;
+}
+
+// An upload started through the proxy, whose chunks are counted against
+// maxUploadBytes.
+interface UploadSession {
+  client: string;
+  receivedBytes: number;
+  startedAt: number;
+}
+
+interface UsageEntry {
+  time: string;
+  client: string;
+  method: string;
+  operation: string;
+  model?: string;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  responseBytes: number;
+  // Total tokens reported by the upstream's usageMetadata, when present.
+  tokens?: number;
+}
+
+// Everything api.ts, LiveChat and the KITT page need; other upstream paths
+// are refused.
+const ROUTES: Route[] = [
+  {
+    operation: 'generate',
+    methods: ['POST'],
+    path: /^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/,
+  },
+  {
+    operation: 'countTokens',
+    methods: ['POST'],
+    path: /^\/v1beta\/models\/[\w.-]+:countTokens$/,
+  },
+  {
+    operation: 'embed',
+    methods: ['POST'],
+    path: /^\/v1beta\/models\/[\w.-]+:(embedContent|batchEmbedContents)$/,
+  },
+  {
+    operation: 'generateImages',
+    methods: ['POST'],
+    path: /^\/v1beta\/models\/[\w.-]+:predict$/,
+  },
+  {operation: 'upload', methods: ['POST'], path: /^\/upload\/v1beta\/files$/},
+  {
+    operation: 'files',
+    methods: ['GET', 'DELETE'],
+    path: /^\/v1beta\/files\/[\w-]+$/,
+  },
+  {operation: 'caches', methods: ['POST'], path: /^\/v1beta\/cachedContents$/},
+  {
+    operation: 'caches',
+    methods: ['GET', 'PATCH', 'DELETE'],
+    path: /^\/v1beta\/cachedContents\/[\w-]+$/,
+  },
+  {
+    operation: 'playlistItems',
+    methods: ['GET'],
+    path: /^\/youtube\/v3\/playlistItems$/,
+    youtube: true,
+  },
+];
+
+const FORWARDED_REQUEST_HEADERS = [
+  'content-type',
+  'x-goog-api-client',
+  'x-goog-upload-command',
+  'x-goog-upload-offset',
+  'x-goog-upload-protocol',
+  'x-goog-upload-header-content-length',
+  'x-goog-upload-header-content-type',
+];
+
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'retry-after',
+  'x-goog-upload-status',
+  'x-goog-upload-size-received',
+  'x-goog-upload-chunk-granularity',
+];
+
+const MiB = 1024 * 1024;
+
+// Upload chunks are 8 MiB (see upload.ts); leave some headroom.
+const MAX_CHUNK_BYTES = 16 * MiB;
+// Upstream keeps upload sessions for about a week.
+const UPLOAD_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const formatLimit = (bytes: number) =>
+  bytes >= MiB ? `${Math.round(bytes / MiB)} MiB` : `${bytes} bytes`;
+
+function readOptions(): ProxyOptions {
+  const env = loadEnv('development', process.cwd(), '');
+  if (!env.GEMINI_API_KEY) {
+    throw new Error(
+      'GEMINI_API_KEY is not set. Add it to .env.local or the environment.',
+    );
+  }
+  return {
+    apiKey: env.GEMINI_API_KEY,
+    upstream: env.PROXY_UPSTREAM || 'https://generativelanguage.googleapis.com',
+    port: Number(env.PROXY_PORT) || 8787,
+    rateLimitPerMinute: Number(env.PROXY_RATE_LIMIT) || 60,
+    maxBodyBytes: Number(env.PROXY_MAX_BODY_BYTES) || 20 * MiB,
+    maxUploadBytes: Number(env.PROXY_MAX_UPLOAD_BYTES) || 2048 * MiB,
+    usageLog: env.PROXY_USAGE_LOG || undefined,
+    youtubeApiKey: env.YOUTUBE_API_KEY || undefined,
+    youtubeUpstream: env.PROXY_YOUTUBE_UPSTREAM || 'https://www.googleapis.com',
+  };
+}
+
+/**
+ * Token bucket per client: `perMinute` requests, refilled continuously.
+ * Returns 0 when the request may go ahead, otherwise the seconds to wait.
+ */
+function createRateLimiter(perMinute: number) {
+  const buckets = new Map<string, {tokens: number; updatedAt: number}>();
+
+  return (client: string) => {
+    const now = Date.now();
+    if (buckets.size > 10_000) {
+      // Full buckets carry no state worth keeping.
+      for (const [key, bucket] of buckets) {
+        if (now - bucket.updatedAt > 60_000) buckets.delete(key);
+      }
+    }
+    const bucket = buckets.get(client) ?? {tokens: perMinute, updatedAt: now};
+    bucket.tokens = Math.min(
+      perMinute,
+      bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute,
+    );
+    bucket.updatedAt = now;
+    buckets.set(client, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) / perMinute) * 60);
+  };
+}
+
+// Only a proxy on this machine, like the Vite dev server, may name the client
+// in X-Forwarded-For. It appends the address it saw, so the last entry is the
+// one to use: earlier entries come from the client and can be made up.
+const LOOPBACK = /^(127\.|::1$|::ffff:127\.)/;
+
+function clientId(req: IncomingMessage) {
+  const peer = req.socket.remoteAddress || 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (typeof forwarded !== 'string' || !LOOPBACK.test(peer)) return peer;
+  return forwarded.split(',').pop().trim() || peer;
+}
+
+// Errors use the Gemini API's error shape, so the SDK reports them the same
+// way as upstream errors (LiveChat's retry logic looks for "429").
+function sendError(
+  res: ServerResponse,
+  code: number,
+  status: string,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  const body = JSON.stringify({error: {code, message, status}});
+  res.writeHead(code, {'Content-Type': 'application/json', ...headers});
+  res.end(body);
+  return body.length;
+}
+
+// Reads the request body, or returns null as soon as it exceeds `limit`.
+async function readBody(
+  req: IncomingMessage,
+  limit: number,
+): Promise<Buffer | null> {
+  if (Number(req.headers['content-length'] ?? 0) > limit) return null;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) return null;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function createProxyServer(options: ProxyOptions) {
+  const takeToken = createRateLimiter(options.rateLimitPerMinute);
+  const uploads = new Map<string, UploadSession>();
+
+  // Remembers a session the upstream just started, dropping expired ones.
+  const startUpload = (uploadId: string, client: string) => {
+    const now = Date.now();
+    for (const [id, session] of uploads) {
+      if (now - session.startedAt > UPLOAD_SESSION_TTL_MS) uploads.delete(id);
+    }
+    uploads.set(uploadId, {client, receivedBytes: 0, startedAt: now});
+  };
+
+  const logUsage = (entry: UsageEntry) => {
+    const line = JSON.stringify(entry);
+    console.log(line);
+    if (options.usageLog) {
+      appendFile(options.usageLog, `${line}\n`).catch((e) =>
+        console.error('Could not write usage log', e),
+      );
+    }
+  };
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const startedAt = Date.now();
+    const url = new URL(req.url ?? '/', 'http://proxy');
+    const method = req.method ?? 'GET';
+    const route = ROUTES.find(
+      ({methods, path}) => methods.includes(method) && path.test(url.pathname),
+    );
+    const entry: UsageEntry = {
+      time: new Date(startedAt).toISOString(),
+      client: clientId(req),
+      method,
+      operation: route?.operation ?? 'rejected',
+      model: url.pathname.match(/\/models\/([^:/]+):/)?.[1],
+      status: 0,
+      durationMs: 0,
+      requestBytes: 0,
+      responseBytes: 0,
+    };
+    const finish = (status: number, responseBytes: number) => {
+      logUsage({
+        ...entry,
+        status,
+        responseBytes,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    if (!route) {
+      finish(
+        404,
+        sendError(
+          res,
+          404,
+          'NOT_FOUND',
+          `The proxy does not allow ${method} ${url.pathname}.`,
+        ),
+      );
+      return;
+    }
+
+    if (route.youtube && !options.youtubeApiKey) {
+      finish(
+        501,
+        sendError(
+          res,
+          501,
+          'FAILED_PRECONDITION',
+          'Set YOUTUBE_API_KEY for the proxy to list YouTube playlists.',
+        ),
+      );
+      return;
+    }
+
+    // Chunks and queries of an upload name its session, which must have been
+    // started through the proxy by the same client.
+    const uploadId =
+      route.operation === 'upload' ? url.searchParams.get('upload_id') : null;
+    const session = uploadId === null ? undefined : uploads.get(uploadId);
+    if (uploadId !== null && session?.client !== entry.client) {
+      finish(
+        404,
+        sendError(
+          res,
+          404,
+          'NOT_FOUND',
+          'No upload session with this id was started through the proxy.',
+        ),
+      );
+      return;
+    }
+
+    const retryAfter = takeToken(entry.client);
+    if (retryAfter > 0) {
+      finish(
+        429,
+        sendError(
+          res,
+          429,
+          'RESOURCE_EXHAUSTED',
+          `Rate limit of ${options.rateLimitPerMinute} requests per minute exceeded for this client. Retry in ${retryAfter}s.`,
+          {'Retry-After': String(retryAfter)},
+        ),
+      );
+      return;
+    }
+
+    const uploadTooLarge = () =>
+      sendError(
+        res,
+        413,
+        'INVALID_ARGUMENT',
+        `Files larger than ${formatLimit(options.maxUploadBytes)} can't be uploaded through the proxy.`,
+      );
+    const uploadSize = Number(
+      req.headers['x-goog-upload-header-content-length'] ?? 0,
+    );
+    if (route.operation === 'upload' && uploadSize > options.maxUploadBytes) {
+      finish(413, uploadTooLarge());
+      return;
+    }
+
+    // Chunks may only carry what is left of the upload limit, whatever size
+    // the upload declared when it started.
+    const uploadBytesLeft = session
+      ? options.maxUploadBytes - session.receivedBytes
+      : Infinity;
+    const limit = session
+      ? Math.min(MAX_CHUNK_BYTES, uploadBytesLeft)
+      : options.maxBodyBytes;
+    const body =
+      method === 'GET' || method === 'DELETE'
+        ? undefined
+        : await readBody(req, limit);
+    if (body === null) {
+      res.setHeader('Connection', 'close');
+      if (uploadBytesLeft < MAX_CHUNK_BYTES) {
+        uploads.delete(uploadId);
+        finish(413, uploadTooLarge());
+        return;
+      }
+      finish(
+        413,
+        sendError(
+          res,
+          413,
+          'INVALID_ARGUMENT',
+          `Request body exceeds the proxy limit of ${formatLimit(limit)}.`,
+        ),
+      );
+      return;
+    }
+    if (session) session.receivedBytes += body?.length ?? 0;
+    entry.requestBytes = body?.length ?? 0;
+
+    const target = new URL(
+      url.pathname,
+      route.youtube ? options.youtubeUpstream : options.upstream,
+    );
+    url.searchParams.forEach((value, name) => {
+      if (name !== 'key') target.searchParams.append(name, value);
+    });
+    const headers: Record<string, string> = {
+      'x-goog-api-key': route.youtube ? options.youtubeApiKey : options.apiKey,
+    };
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    }
+
+    // Stop the upstream request when the browser cancels.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(target, {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      });
+    } catch (e) {
+      finish(
+        502,
+        controller.signal.aborted
+          ? 0
+          : sendError(
+              res,
+              502,
+              'UNAVAILABLE',
+              `Upstream request failed: ${(e as Error).message}`,
+            ),
+      );
+      return;
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value !== null) responseHeaders[name] = value;
+    }
+    const uploadUrl = upstream.headers.get('x-goog-upload-url');
+    if (uploadUrl) {
+      // Keep the session id but send chunks through the proxy: a query-only
+      // URL resolves against the upload endpoint the client started from.
+      const sessionUrl = new URL(uploadUrl);
+      sessionUrl.searchParams.delete('key');
+      responseHeaders['x-goog-upload-url'] = sessionUrl.search;
+      const startedId = sessionUrl.searchParams.get('upload_id');
+      if (startedId) startUpload(startedId, entry.client);
+    }
+    if (upstream.headers.get('x-goog-upload-status') === 'final') {
+      uploads.delete(uploadId);
+    }
+    res.writeHead(upstream.status, responseHeaders);
+
+    // Streams are passed through as they arrive; token usage is taken from
+    // the last usageMetadata seen.
+    let responseBytes = 0;
+    let tail = '';
+    const decoder = new TextDecoder();
+    try {
+      // Node's ReadableStream is async iterable; the DOM typings don't say so.
+      const body = (upstream.body ??
+        []) as unknown as AsyncIterable<Uint8Array>;
+      for await (const bytes of body) {
+        responseBytes += bytes.length;
+        res.write(bytes);
+        tail = (tail + decoder.decode(bytes, {stream: true})).slice(-4096);
+        const tokens = [...tail.matchAll(/"totalTokenCount":\s*(\d+)/g)].pop();
+        if (tokens) entry.tokens = Number(tokens[1]);
+      }
+    } catch (e) {
+      console.error('Upstream response interrupted', e);
+    }
+    res.end();
+    finish(upstream.status, responseBytes);
+  }
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((e) => {
+      console.error(e);
+      if (!res.headersSent) {
+        sendError(
+          res,
+          500,
+          'INTERNAL',
+          'The proxy failed to handle the request.',
+        );
+      } else {
+        res.end();
+      }
+    });
+  });
+}
+
+const options = readOptions();
+createProxyServer(options).listen(options.port, () => {
+  console.log(
+    `API proxy listening on http://localhost:${options.port}, forwarding to ${options.upstream}`,
+  );
+});
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {BatchEntry, BatchStatus} from './batch';
+import {RendererName, rendererFor} from './modes';
+import type {
+  Chapter,
+  GenerateResult,
+  NumericTimecode,
+  ObjectBox,
+  Timecode,
+  TimecodeWithObjects,
+  TranscriptSegment,
+} from './results';
+
+const REPORT_VERSION = 1;
+
+interface ReportSection {
+  name: string;
+  // The renderer the result is shown with, after any fallback.
+  renderer: RendererName;
+  label: string;
+  status: BatchStatus;
+  attempts: number;
+  durationMs?: number;
+  result?: GenerateResult;
+  error?: string;
+}
+
+interface BatchReport {
+  version: number;
+  video: {name: string; uri?: string};
+  model: string;
+  createdAt: string;
+  summary: {total: number; done: number; failed: number; cancelled: number};
+  sections: ReportSection[];
+}
+
+function buildReport(
+  entries: BatchEntry[],
+  video: BatchReport['video'],
+  model: string,
+): BatchReport {
+  const count = (status: BatchStatus) =>
+    entries.filter((entry) => entry.status === status).length;
+  return {
+    version: REPORT_VERSION,
+    video,
+    model,
+    createdAt: new Date().toISOString(),
+    summary: {
+      total: entries.length,
+      done: count('done'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+    },
+    sections: entries.map(
+      ({task, status, attempts, durationMs, result, error}) => ({
+        name: task.name,
+        renderer:
+          result && result.name !== 'text'
+            ? rendererFor(task.mode, result.name)
+            : task.mode.renderer,
+        label: task.label,
+        status,
+        attempts,
+        durationMs,
+        result,
+        error,
+      }),
+    ),
+  };
+}
+
+const reportToJson = (report: BatchReport) => JSON.stringify(report, null, 2);
+
+const escapeHtml = (text: string) =>
+  text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+
+const timeHtml = (time: string) => `<time>${escapeHtml(time)}</time>`;
+
+const rangeHtml = (time: string, end?: string) =>
+  end ? `${timeHtml(time)}–${timeHtml(end)}` : timeHtml(time);
+
+// Same layout as Chart.tsx, drawn once as static SVG.
+function chartSvg(data: NumericTimecode[], yLabel: string) {
+  const width = 640;
+  const height = 240;
+  const margin = 40;
+  const values = data.map(({value}) => value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const x = (i: number) =>
+    margin + ((width - 2 * margin) * (i + 0.5)) / data.length;
+  const y = (value: number) =>
+    height -
+    margin -
+    ((height - 2 * margin) * (value - min)) / (max - min || 1);
+  const points = data.map(({value}, i) => `${x(i)},${y(value)}`).join(' ');
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeHtml(yLabel)}">
+  <text x="${margin}" y="${margin / 2}">${escapeHtml(yLabel)}</text>
+  <text x="4" y="${y(max) + 4}">${max}</text>
+  <text x="4" y="${y(min) + 4}">${min}</text>
+  <polyline points="${points}" />
+  ${data
+    .map(
+      ({time, value}, i) =>
+        `<circle cx="${x(i)}" cy="${y(value)}" r="4"><title>${escapeHtml(time)}: ${value}</title></circle>
+  <text class="time" x="${x(i)}" y="${height - margin / 2}">${escapeHtml(time)}</text>`,
+    )
+    .join('\n  ')}
+</svg>`;
+}
+
+function resultHtml(section: ReportSection) {
+  const {result} = section;
+  if (result.name === 'text') {
+    return `<p>${escapeHtml(result.text)}</p>`;
+  }
+  switch (section.renderer) {
+    case 'prose':
+      return `<p>${(result.timecodes as Timecode[])
+        .map(({time, text}) => `${timeHtml(time)} ${escapeHtml(text)}`)
+        .join(' ')}</p>`;
+    case 'list':
+      return `<ul>${(result.timecodes as Timecode[])
+        .map(
+          ({time, end, text}) =>
+            `<li>${rangeHtml(time, end)} ${escapeHtml(text)}</li>`,
+        )
+        .join('')}</ul>`;
+    case 'table':
+      return `<table><thead><tr><th>Time</th><th>Description</th><th>Objects</th></tr></thead><tbody>${(
+        result.timecodes as TimecodeWithObjects[]
+      )
+        .map(
+          ({time, end, text, objects}) =>
+            `<tr><td>${rangeHtml(time, end)}</td><td>${escapeHtml(text)}</td><td>${escapeHtml(objects.join(', '))}</td></tr>`,
+        )
+        .join('')}</tbody></table>`;
+    case 'chart':
+      return chartSvg(result.timecodes as NumericTimecode[], section.label);
+    case 'chapters':
+      return `<ol>${(result.timecodes as Chapter[])
+        .map(
+          ({time, title}) => `<li>${timeHtml(time)} ${escapeHtml(title)}</li>`,
+        )
+        .join('')}</ol>`;
+    case 'boxes':
+      return `<table><thead><tr><th>Time</th><th>Object</th><th>Box [ymin, xmin, ymax, xmax]</th></tr></thead><tbody>${(
+        result.timecodes as ObjectBox[]
+      )
+        .map(
+          ({time, label, box_2d}) =>
+            `<tr><td>${timeHtml(time)}</td><td>${escapeHtml(label)}</td><td>${box_2d.join(', ')}</td></tr>`,
+        )
+        .join('')}</tbody></table>`;
+    case 'transcript':
+      return `<table><thead><tr><th>Time</th><th>Speaker</th><th>Text</th></tr></thead><tbody>${(
+        result.timecodes as TranscriptSegment[]
+      )
+        .map(
+          ({time, end, speaker, text}) =>
+            `<tr><td>${rangeHtml(time, end)}</td><td>${escapeHtml(speaker)}</td><td>${escapeHtml(text)}</td></tr>`,
+        )
+        .join('')}</tbody></table>`;
+  }
+}
+
+const formatDuration = (ms?: number) =>
+  ms === undefined ? '' : `${(ms / 1000).toFixed(1)} s`;
+
+const sectionId = (i: number) => `section-${i + 1}`;
+
+/** Renders the report as a standalone HTML page. */
+function reportToHtml(report: BatchReport) {
+  const {video, summary, sections} = report;
+  const title = `Video report: ${video.name}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; line-height: 1.5; color: #1f2937; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  time { font-family: monospace; color: #2563eb; margin-right: 6px; }
+  li { list-style: none; }
+  .failed { color: #b91c1c; }
+  .cancelled { color: #6b7280; }
+  .meta { color: #6b7280; font-size: 0.9em; }
+  svg.chart { width: 100%; height: auto; font-size: 11px; }
+  svg.chart polyline { fill: none; stroke: #2563eb; stroke-width: 2; }
+  svg.chart circle { fill: #2563eb; }
+  svg.chart text.time { text-anchor: middle; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${video.uri ? `${escapeHtml(video.uri)} · ` : ''}${escapeHtml(report.model)} · ${escapeHtml(new Date(report.createdAt).toLocaleString())}</p>
+
+<h2>Summary</h2>
+<p>${summary.done} of ${summary.total} modes succeeded${summary.failed ? `, ${summary.failed} failed` : ''}${summary.cancelled ? `, ${summary.cancelled} cancelled` : ''}.</p>
+<table>
+<thead><tr><th>Mode</th><th>Status</th><th>Attempts</th><th>Time</th></tr></thead>
+<tbody>
+${sections
+  .map(
+    (section, i) =>
+      `<tr class="${section.status}"><td><a href="#${sectionId(i)}">${escapeHtml(section.name)}</a></td><td>${section.status}</td><td>${section.attempts}</td><td>${formatDuration(section.durationMs)}</td></tr>`,
+  )
+  .join('\n')}
+</tbody>
+</table>
+
+${sections
+  .map(
+    (section, i) => `<section id="${sectionId(i)}">
+<h2>${escapeHtml(section.name)}</h2>
+${
+  section.result
+    ? resultHtml(section)
+    : `<p class="${section.status}">${
+        section.status === 'failed'
+          ? `Failed after ${section.attempts} attempt(s): ${escapeHtml(section.error ?? '')}`
+          : 'Cancelled before it finished.'
+      }</p>`
+}
+</section>`,
+  )
+  .join('\n\n')}
+</body>
+</html>
+`;
+}
+
+export {buildReport, reportToHtml, reportToJson};
+export type {BatchReport, ReportSection};
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {FunctionCall} from '@google/genai';
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {generateContent} from './api';
+import {generateResult, parseFunctionCall} from './results';
+
+vi.mock('./api', () => ({generateContent: vi.fn()}));
+
+const call = (name: string, timecodes: unknown): FunctionCall => ({
+  name,
+  args: {timecodes},
+});
+
+const errorsOf = (outcome: ReturnType<typeof parseFunctionCall>) =>
+  outcome.ok === false ? outcome.errors : [];
+
+describe('parseFunctionCall', () => {
+  it('normalizes valid entries', () => {
+    expect(
+      parseFunctionCall(
+        call('set_timecodes', [
+          {time: '1:05', text: "It\\'s here"},
+          {time: '01:02:03.500', end: '1:02:10', text: 'Later'},
+        ]),
+      ),
+    ).toEqual({
+      ok: true,
+      result: {
+        name: 'set_timecodes',
+        timecodes: [
+          {time: '01:05', text: "It's here"},
+          {time: '01:02:03.500', end: '01:02:10', text: 'Later'},
+        ],
+      },
+    });
+  });
+
+  it.each(['1:5', '65', '1m5s', '75:00', '00:60', '[00:05]'])(
+    'rejects the timecode %j',
+    (time) => {
+      const errors = errorsOf(
+        parseFunctionCall(call('set_timecodes', [{time, text: 'Hi'}])),
+      );
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(
+        new RegExp(
+          `^timecodes\\[0\\]\\.time "${time.replace(/[[\]]/g, '\\$&')}" is not a valid timecode`,
+        ),
+      );
+    },
+  );
+
+  it('rejects an end before its time', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_timecodes', [{time: '00:10', end: '00:05', text: 'Hi'}]),
+        ),
+      ),
+    ).toEqual(['timecodes[0].end "00:05" is before its time "00:10"']);
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_timecodes_with_numeric_values', [
+            {time: '00:01', value: '42'},
+            {time: '00:02', value: null},
+            {time: '00:03', value: 7},
+          ]),
+        ),
+      ),
+    ).toEqual([
+      'timecodes[0].value must be a number, got "42"',
+      'timecodes[1].value must be a number, got null',
+    ]);
+  });
+
+  it('reports missing required fields', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_transcript', [{time: '00:01', speaker: ' ', text: 'Hi'}]),
+        ),
+      ),
+    ).toEqual([
+      'timecodes[0].end is required and must be a string',
+      'timecodes[0].speaker is required and must be a non-empty string',
+    ]);
+    expect(
+      errorsOf(parseFunctionCall(call('set_timecodes_with_objects', [{}]))),
+    ).toEqual([
+      'timecodes[0].time is required and must be a string',
+      'timecodes[0].text is required and must be a non-empty string',
+      'timecodes[0].objects is required and must be an array of strings',
+    ]);
+  });
+
+  it('rejects calls without entries', () => {
+    expect(errorsOf(parseFunctionCall(call('set_timecodes', 'none')))).toEqual([
+      'timecodes is required and must be an array',
+    ]);
+    expect(errorsOf(parseFunctionCall(call('set_timecodes', [])))).toEqual([
+      'timecodes must contain at least one entry',
+    ]);
+    expect(errorsOf(parseFunctionCall(call('set_timecodes', [42])))).toEqual([
+      'timecodes[0] must be an object',
+    ]);
+    expect(errorsOf(parseFunctionCall(call('set_weather', [])))).toEqual([
+      'Unknown function "set_weather"',
+    ]);
+  });
+
+  it('rejects boxes outside the frame or inside out', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_timecodes_with_boxes', [
+            {time: '00:01', label: 'Cat', box_2d: [0, 0, 1001, 10]},
+            {time: '00:02', label: 'Dog', box_2d: [50, 0, 10, 10]},
+          ]),
+        ),
+      ),
+    ).toEqual([
+      'timecodes[0].box_2d must be [ymin, xmin, ymax, xmax] with numbers from 0 to 1000, got [0,0,1001,10]',
+      'timecodes[1].box_2d [50,0,10,10] must have ymin < ymax and xmin < xmax',
+    ]);
+  });
+
+  it('checks chapters as a list', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_chapters', [
+            {time: '00:05', title: 'Intro'},
+            {time: '00:10', title: 'Too soon'},
+          ]),
+        ),
+      ),
+    ).toEqual([
+      'timecodes[0].time must be 00:00, the first chapter starts at the beginning of the video',
+      'timecodes[1].time "00:10" must be at least 10 seconds after the previous chapter at "00:05"',
+    ]);
+  });
+
+  it('rejects overlapping ranges in any order', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_timecodes', [
+            {time: '00:20', end: '00:30', text: 'Second'},
+            {time: '00:00', end: '00:25', text: 'First'},
+          ]),
+        ),
+      ),
+    ).toEqual(['timecodes[0] overlaps timecodes[1], which ends at "00:25"']);
+  });
+
+  it('rejects times past the end of the video', () => {
+    expect(
+      errorsOf(
+        parseFunctionCall(
+          call('set_timecodes', [
+            {time: '01:00', text: 'Within the tolerance'},
+            {time: '01:05', text: 'Too late'},
+          ]),
+          59.5,
+        ),
+      ),
+    ).toEqual([
+      'timecodes[1].time "01:05" is past the end of the video at 01:00',
+    ]);
+  });
+});
+
+describe('generateResult', () => {
+  const mockedGenerate = vi.mocked(generateContent);
+  const respond = (functionCall?: FunctionCall, text?: string) =>
+    ({
+      functionCalls: functionCall ? [functionCall] : undefined,
+      text,
+    }) as Awaited<ReturnType<typeof generateContent>>;
+
+  beforeEach(() => {
+    mockedGenerate.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('returns text answers', async () => {
+    mockedGenerate.mockResolvedValue(respond(undefined, 'Just prose.'));
+    expect(await generateResult('Describe', [], null)).toEqual({
+      name: 'text',
+      text: 'Just prose.',
+    });
+  });
+
+  it('asks again with the validation errors', async () => {
+    mockedGenerate
+      .mockResolvedValueOnce(
+        respond(call('set_timecodes', [{time: '1:5', text: 'Hi'}])),
+      )
+      .mockResolvedValueOnce(
+        respond(call('set_timecodes', [{time: '01:05', text: 'Hi'}])),
+      );
+    expect(await generateResult('Find it', [], null)).toEqual({
+      name: 'set_timecodes',
+      timecodes: [{time: '01:05', text: 'Hi'}],
+    });
+    expect(mockedGenerate).toHaveBeenCalledTimes(2);
+    const retryPrompt = mockedGenerate.mock.calls[1][0];
+    expect(retryPrompt).toMatch(
+      /^Find it\n\nYour previous call to set_timecodes/,
+    );
+    expect(retryPrompt).toContain(
+      '- timecodes[0].time "1:5" is not a valid timecode',
+    );
+  });
+
+  it('gives up after maxAttempts', async () => {
+    mockedGenerate.mockResolvedValue(
+      respond(
+        call('set_timecodes_with_numeric_values', [
+          {time: '00:01', value: 'high'},
+        ]),
+      ),
+    );
+    await expect(
+      generateResult(
+        'Rate it',
+        [],
+        null,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        2,
+      ),
+    ).rejects.toThrow(
+      'The model returned invalid results after 2 attempts: timecodes[0].value must be a number, got "high"',
+    );
+    expect(mockedGenerate).toHaveBeenCalledTimes(2);
+  });
+});
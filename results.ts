@@ -0,0 +1,436 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {
+  FunctionCall,
+  FunctionDeclaration,
+  File as GenAIFile,
+} from '@google/genai';
+import {generateContent, VideoClip} from './api';
+import {
+  formatTimecode,
+  normalizeTimecode,
+  parseTimecode,
+  timecodeToSecs,
+} from './timecode';
+
+// Typed views of the arguments declared in functions.ts. Where an entry has
+// an `end`, it covers the range from `time` to `end`.
+
+interface Timecode {
+  time: string;
+  end?: string;
+  text: string;
+}
+
+interface TimecodeWithObjects extends Timecode {
+  objects: string[];
+}
+
+interface NumericTimecode {
+  time: string;
+  end?: string;
+  value: number;
+}
+
+// A chapter runs from its time to the next chapter's time.
+interface Chapter {
+  time: string;
+  title: string;
+}
+
+// [ymin, xmin, ymax, xmax] in thousandths of the frame's height and width.
+type Box2D = [number, number, number, number];
+
+interface ObjectBox {
+  time: string;
+  label: string;
+  box_2d: Box2D;
+}
+
+// What one speaker says from `time` until `end`.
+interface TranscriptSegment {
+  time: string;
+  end: string;
+  speaker: string;
+  text: string;
+}
+
+type FunctionResult =
+  | {name: 'set_timecodes'; timecodes: Timecode[]}
+  | {name: 'set_timecodes_with_objects'; timecodes: TimecodeWithObjects[]}
+  | {name: 'set_timecodes_with_numeric_values'; timecodes: NumericTimecode[]}
+  | {name: 'set_chapters'; timecodes: Chapter[]}
+  | {name: 'set_timecodes_with_boxes'; timecodes: ObjectBox[]}
+  | {name: 'set_transcript'; timecodes: TranscriptSegment[]};
+
+type FunctionName = FunctionResult['name'];
+
+// The model may also answer in prose instead of calling a function.
+type GenerateResult = FunctionResult | {name: 'text'; text: string};
+
+type ParseOutcome =
+  {ok: true; result: FunctionResult} | {ok: false; errors: string[]};
+
+const MAX_VALIDATION_ATTEMPTS = 3;
+
+// Slack for times just past the end of the video.
+const DURATION_TOLERANCE_SECS = 1;
+
+// YouTube ignores chapter lists with shorter chapters.
+const MIN_CHAPTER_SECS = 10;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns the seconds of a valid timecode in `field`.
+function checkTimecode(
+  entry: Record<string, unknown>,
+  field: string,
+  at: string,
+  errors: string[],
+): number | undefined {
+  const value = entry[field];
+  if (typeof value !== 'string') {
+    errors.push(`${at}.${field} is required and must be a string`);
+    return;
+  }
+  const parsed = parseTimecode(value, {strict: true});
+  if (parsed.ok === false) {
+    errors.push(
+      `${at}.${field} "${value}" is not a valid timecode: ${parsed.error}`,
+    );
+    return;
+  }
+  return parsed.secs;
+}
+
+function checkTime(
+  entry: Record<string, unknown>,
+  at: string,
+  errors: string[],
+) {
+  checkTimecode(entry, 'time', at, errors);
+}
+
+function checkEnd(
+  entry: Record<string, unknown>,
+  at: string,
+  errors: string[],
+) {
+  const end = checkTimecode(entry, 'end', at, errors);
+  // checkTime reports an invalid time.
+  const time = parseTimecode(entry.time as string);
+  if (end !== undefined && time.ok === true && end < time.secs) {
+    errors.push(`${at}.end "${entry.end}" is before its time "${entry.time}"`);
+  }
+}
+
+// Runs `check` only when the entry has `field`.
+const optional =
+  (
+    field: string,
+    check: (
+      entry: Record<string, unknown>,
+      at: string,
+      errors: string[],
+    ) => void,
+  ) =>
+  (entry: Record<string, unknown>, at: string, errors: string[]) => {
+    if (entry[field] !== undefined) check(entry, at, errors);
+  };
+
+// Checks that `field` holds some text.
+const checkString =
+  (field: string) =>
+  (entry: Record<string, unknown>, at: string, errors: string[]) => {
+    const value = entry[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${at}.${field} is required and must be a non-empty string`);
+    }
+  };
+
+const checkText = checkString('text');
+
+function checkObjects(
+  entry: Record<string, unknown>,
+  at: string,
+  errors: string[],
+) {
+  if (
+    !Array.isArray(entry.objects) ||
+    entry.objects.some((o) => typeof o !== 'string')
+  ) {
+    errors.push(`${at}.objects is required and must be an array of strings`);
+  }
+}
+
+function checkValue(
+  entry: Record<string, unknown>,
+  at: string,
+  errors: string[],
+) {
+  if (typeof entry.value !== 'number' || !Number.isFinite(entry.value)) {
+    errors.push(
+      `${at}.value must be a number, got ${JSON.stringify(entry.value)}`,
+    );
+  }
+}
+
+function checkBox(
+  entry: Record<string, unknown>,
+  at: string,
+  errors: string[],
+) {
+  const box = entry.box_2d;
+  if (
+    !Array.isArray(box) ||
+    box.length !== 4 ||
+    !box.every((n) => typeof n === 'number' && n >= 0 && n <= 1000)
+  ) {
+    errors.push(
+      `${at}.box_2d must be [ymin, xmin, ymax, xmax] with numbers from 0 to 1000, got ${JSON.stringify(box)}`,
+    );
+  } else if (box[0] >= box[2] || box[1] >= box[3]) {
+    errors.push(
+      `${at}.box_2d ${JSON.stringify(box)} must have ymin < ymax and xmin < xmax`,
+    );
+  }
+}
+
+// Chapters must start at 00:00 and follow each other in order, each at
+// least MIN_CHAPTER_SECS long. Runs once every entry is valid.
+function checkChapters(timecodes: {time: string}[], errors: string[]) {
+  const secs = timecodes.map(({time}) => timecodeToSecs(time));
+  if (secs[0] !== 0) {
+    errors.push(
+      `timecodes[0].time must be 00:00, the first chapter starts at the beginning of the video`,
+    );
+  }
+  secs.slice(1).forEach((t, i) => {
+    if (t - secs[i] < MIN_CHAPTER_SECS) {
+      errors.push(
+        `timecodes[${i + 1}].time "${timecodes[i + 1].time}" must be at least ${MIN_CHAPTER_SECS} seconds after the previous chapter at "${timecodes[i].time}"`,
+      );
+    }
+  });
+}
+
+// Ranges may not overlap, whatever order the model lists them in.
+function checkOverlaps(
+  timecodes: {time: string; end?: string}[],
+  errors: string[],
+) {
+  const ranges = timecodes
+    .map(({time, end}, i) => ({
+      i,
+      start: timecodeToSecs(time),
+      end: end === undefined ? undefined : timecodeToSecs(end),
+    }))
+    .filter(({end}) => end !== undefined)
+    .sort((a, b) => a.start - b.start);
+  ranges.slice(1).forEach((range, i) => {
+    const previous = ranges[i];
+    if (range.start < previous.end) {
+      errors.push(
+        `timecodes[${range.i}] overlaps timecodes[${previous.i}], which ends at "${timecodes[previous.i].end}"`,
+      );
+    }
+  });
+}
+
+// Checks on the whole list, for functions whose entries depend on each other.
+const listCheckers: {
+  [Name in FunctionName]?: (
+    timecodes: Extract<FunctionResult, {name: Name}>['timecodes'],
+    errors: string[],
+  ) => void;
+} = {
+  set_timecodes: checkOverlaps,
+  set_timecodes_with_objects: checkOverlaps,
+  set_timecodes_with_numeric_values: checkOverlaps,
+  set_chapters: checkChapters,
+};
+
+// Times past the end of the video (or of the clip that was analyzed).
+function checkDuration(
+  timecodes: {time: string; end?: string}[],
+  maxSecs: number,
+  errors: string[],
+) {
+  timecodes.forEach((entry, i) =>
+    (['time', 'end'] as const).forEach((field) => {
+      const value = entry[field];
+      if (
+        value !== undefined &&
+        timecodeToSecs(value) > maxSecs + DURATION_TOLERANCE_SECS
+      ) {
+        errors.push(
+          `timecodes[${i}].${field} "${value}" is past the end of the video at ${formatTimecode(maxSecs)}`,
+        );
+      }
+    }),
+  );
+}
+
+const entryCheckers: Record<
+  FunctionName,
+  ((entry: Record<string, unknown>, at: string, errors: string[]) => void)[]
+> = {
+  set_timecodes: [checkTime, optional('end', checkEnd), checkText],
+  set_timecodes_with_objects: [
+    checkTime,
+    optional('end', checkEnd),
+    checkText,
+    checkObjects,
+  ],
+  set_timecodes_with_numeric_values: [
+    checkTime,
+    optional('end', checkEnd),
+    checkValue,
+  ],
+  set_chapters: [checkTime, checkString('title')],
+  set_timecodes_with_boxes: [checkTime, checkString('label'), checkBox],
+  set_transcript: [checkTime, checkEnd, checkString('speaker'), checkText],
+};
+
+const isKnownFunction = (name: string): name is FunctionName =>
+  Object.prototype.hasOwnProperty.call(entryCheckers, name);
+
+/**
+ * Validates the arguments of a function call against the declarations in
+ * functions.ts. Returns the typed result or every problem that was found.
+ * With `maxSecs`, times past it are rejected too.
+ */
+function parseFunctionCall(call: FunctionCall, maxSecs?: number): ParseOutcome {
+  if (!call.name || !isKnownFunction(call.name)) {
+    return {ok: false, errors: [`Unknown function "${call.name}"`]};
+  }
+  const errors: string[] = [];
+  const timecodes = call.args?.timecodes;
+
+  if (!Array.isArray(timecodes)) {
+    return {ok: false, errors: ['timecodes is required and must be an array']};
+  }
+  if (timecodes.length === 0) {
+    errors.push('timecodes must contain at least one entry');
+  }
+
+  timecodes.forEach((entry, i) => {
+    const at = `timecodes[${i}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    entryCheckers[call.name as FunctionName].forEach((check) =>
+      check(entry, at, errors),
+    );
+  });
+
+  if (errors.length === 0) {
+    listCheckers[call.name]?.(timecodes, errors);
+    if (maxSecs > 0) checkDuration(timecodes, maxSecs, errors);
+  }
+  if (errors.length > 0) {
+    return {ok: false, errors};
+  }
+
+  return {
+    ok: true,
+    result: {
+      name: call.name,
+      timecodes: timecodes.map((entry) => ({
+        ...entry,
+        time: normalizeTimecode(entry.time),
+        ...(typeof entry.text === 'string'
+          ? {text: entry.text.replaceAll("\\'", "'")}
+          : {}),
+        ...(typeof entry.end === 'string'
+          ? {end: normalizeTimecode(entry.end)}
+          : {}),
+        ...(typeof entry.title === 'string' ? {title: entry.title.trim()} : {}),
+        ...(typeof entry.label === 'string' ? {label: entry.label.trim()} : {}),
+        ...(typeof entry.speaker === 'string'
+          ? {speaker: entry.speaker.trim()}
+          : {}),
+      })),
+    } as FunctionResult,
+  };
+}
+
+/**
+ * Runs generateContent and validates the function call in the response. When
+ * the arguments are invalid the model is asked again with the validation
+ * errors, up to `maxAttempts` times in total.
+ */
+async function generateResult(
+  text: string,
+  functionDeclarations: FunctionDeclaration[],
+  file: GenAIFile | null,
+  youtubeUrl?: string,
+  signal?: AbortSignal,
+  clip?: VideoClip,
+  // Length of the video, when known, to reject times past its end.
+  durationSecs?: number,
+  maxAttempts = MAX_VALIDATION_ATTEMPTS,
+  // Called with the answer text so far while it streams in.
+  onText?: (text: string) => void,
+): Promise<GenerateResult> {
+  let promptText = text;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await generateContent(
+      promptText,
+      functionDeclarations,
+      file,
+      youtubeUrl,
+      signal,
+      clip,
+      onText,
+    );
+    const call = response.functionCalls?.[0];
+    if (!call) {
+      return {name: 'text', text: response.text ?? ''};
+    }
+
+    // Times in a clip's answer may be relative to the clip or to the whole
+    // video (see segments.ts), so neither goes past the clip's end.
+    const outcome = parseFunctionCall(call, clip ? clip.endSecs : durationSecs);
+    if (outcome.ok === true) {
+      return outcome.result;
+    }
+
+    lastErrors = outcome.errors;
+    console.warn(
+      `Invalid ${call.name} call (attempt ${attempt}/${maxAttempts}):`,
+      lastErrors,
+    );
+    promptText = `${text}\n\nYour previous call to ${call.name} was rejected \
+because of these problems:\n${lastErrors.map((e) => `- ${e}`).join('\n')}\n\
+Call the function again with corrected arguments.`;
+  }
+
+  throw new Error(
+    `The model returned invalid results after ${maxAttempts} attempts: ${lastErrors.join('; ')}`,
+  );
+}
+
+export {generateResult, parseFunctionCall};
+export {MAX_VALIDATION_ATTEMPTS, MIN_CHAPTER_SECS};
+export type {
+  Box2D,
+  Chapter,
+  FunctionName,
+  FunctionResult,
+  GenerateResult,
+  NumericTimecode,
+  ObjectBox,
+  ParseOutcome,
+  Timecode,
+  TimecodeWithObjects,
+  TranscriptSegment,
+};
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it, vi} from 'vitest';
+import type {VideoClip} from './api';
+import type {BatchEntry} from './batch';
+import modes from './modes';
+import type {GenerateResult} from './results';
+import {mergeSegmentResults, planSegments} from './segments';
+
+vi.mock('./api', () => ({generateContent: vi.fn()}));
+
+// A 25-minute video in 10-minute segments.
+const CLIPS = planSegments(25 * 60, 10 * 60);
+
+const finished = (clip: VideoClip, result: GenerateResult): BatchEntry => ({
+  task: {
+    key: `scenes#${clip.startSecs}`,
+    name: `${clip.startSecs}`,
+    mode: modes['A/V captions'],
+    prompt: '',
+    label: '',
+    clip,
+  },
+  status: 'done',
+  attempts: 1,
+  result,
+});
+
+describe('planSegments', () => {
+  it('overlaps neighbouring segments', () => {
+    expect(CLIPS).toEqual([
+      {startSecs: 0, endSecs: 600},
+      {startSecs: 585, endSecs: 1200},
+      {startSecs: 1185, endSecs: 1500},
+    ]);
+  });
+
+  it('folds a short last segment into the one before', () => {
+    expect(planSegments(630, 600)).toEqual([{startSecs: 0, endSecs: 630}]);
+  });
+});
+
+describe('mergeSegmentResults', () => {
+  it('waits for a finished segment', () => {
+    expect(mergeSegmentResults([])).toBeNull();
+  });
+
+  it('keeps a moment found by two segments once', () => {
+    const merged = mergeSegmentResults([
+      finished(CLIPS[0], {
+        name: 'set_timecodes',
+        timecodes: [
+          {time: '00:30', text: 'Kickoff'},
+          {time: '09:50', text: 'Goal scored by the striker'},
+        ],
+      }),
+      finished(CLIPS[1], {
+        name: 'set_timecodes',
+        timecodes: [
+          {time: '00:06', text: 'The striker scored a goal'},
+          {time: '05:00', text: 'Halftime'},
+        ],
+      }),
+    ]);
+    expect(merged).toEqual({
+      name: 'set_timecodes',
+      timecodes: [
+        {time: '00:30', text: 'Kickoff'},
+        {time: '09:50', text: 'Goal scored by the striker'},
+        {time: '14:45', text: 'Halftime'},
+      ],
+    });
+  });
+
+  it('ends ranges at the end of their segment', () => {
+    const merged = mergeSegmentResults([
+      finished(CLIPS[0], {
+        name: 'set_timecodes',
+        timecodes: [{time: '09:40', end: '10:30', text: 'Penalty'}],
+      }),
+      finished(CLIPS[2], {
+        name: 'set_timecodes',
+        timecodes: [{time: '04:00', end: '06:00', text: 'Final whistle'}],
+      }),
+    ]);
+    expect(merged).toEqual({
+      name: 'set_timecodes',
+      timecodes: [
+        {time: '09:40', end: '10:00', text: 'Penalty'},
+        {time: '23:45', end: '25:00', text: 'Final whistle'},
+      ],
+    });
+  });
+
+  it('keeps merged chapters at least the minimum length apart', () => {
+    const merged = mergeSegmentResults([
+      finished(CLIPS[0], {
+        name: 'set_chapters',
+        timecodes: [
+          {time: '00:00', title: 'Intro'},
+          {time: '09:50', title: 'Kickoff'},
+        ],
+      }),
+      finished(CLIPS[1], {
+        name: 'set_chapters',
+        timecodes: [
+          {time: '00:00', title: 'First half'},
+          {time: '02:00', title: 'Second goal'},
+        ],
+      }),
+    ]);
+    expect(merged).toEqual({
+      name: 'set_chapters',
+      timecodes: [
+        {time: '00:00', title: 'Intro'},
+        {time: '09:45', title: 'First half'},
+        {time: '11:45', title: 'Second goal'},
+      ],
+    });
+  });
+
+  it('averages values found by two segments', () => {
+    const merged = mergeSegmentResults([
+      finished(CLIPS[0], {
+        name: 'set_timecodes_with_numeric_values',
+        timecodes: [{time: '09:55', value: 4}],
+      }),
+      finished(CLIPS[1], {
+        name: 'set_timecodes_with_numeric_values',
+        timecodes: [{time: '00:12', value: 6}],
+      }),
+    ]);
+    expect(merged).toEqual({
+      name: 'set_timecodes_with_numeric_values',
+      timecodes: [{time: '09:55', value: 5}],
+    });
+  });
+
+  it('joins text answers by segment', () => {
+    const merged = mergeSegmentResults([
+      finished(CLIPS[0], {name: 'text', text: 'The match starts.'}),
+      finished(CLIPS[1], {name: 'text', text: 'It ends.'}),
+    ]);
+    expect(merged).toEqual({
+      name: 'text',
+      text: '[0] The match starts.\n\n[585] It ends.',
+    });
+  });
+});
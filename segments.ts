@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {VideoClip} from './api';
+import type {BatchEntry, BatchTask} from './batch';
+import {
+  Chapter,
+  FunctionName,
+  FunctionResult,
+  GenerateResult,
+  MIN_CHAPTER_SECS,
+  NumericTimecode,
+  ObjectBox,
+  Timecode,
+} from './results';
+import {formatTimecode, timecodeToSecs} from './timecode';
+
+const SEGMENT_LENGTH_CHOICES = [5 * 60, 10 * 60, 20 * 60];
+const DEFAULT_SEGMENT_SECS = 10 * 60;
+// Neighbouring segments overlap so a moment at a boundary isn't cut in half.
+const SEGMENT_OVERLAP_SECS = 15;
+// A last segment shorter than this is folded into the one before it.
+const MIN_SEGMENT_SECS = 60;
+// Entries of different segments this close together can describe one
+// moment seen by both.
+const DUPLICATE_WINDOW_SECS = SEGMENT_OVERLAP_SECS;
+// Slack for timecodes that land just outside their segment.
+const BOUNDARY_TOLERANCE_SECS = 2;
+
+function planSegments(
+  durationSecs: number,
+  segmentSecs = DEFAULT_SEGMENT_SECS,
+): VideoClip[] {
+  const end = Math.ceil(durationSecs);
+  const clips: VideoClip[] = [];
+  for (let start = 0; start < end; start += segmentSecs) {
+    clips.push({
+      startSecs: Math.max(0, start - SEGMENT_OVERLAP_SECS),
+      endSecs: Math.min(end, start + segmentSecs),
+    });
+  }
+  const last = clips[clips.length - 1];
+  if (clips.length > 1 && last.endSecs - last.startSecs < MIN_SEGMENT_SECS) {
+    clips.pop();
+    clips[clips.length - 1].endSecs = end;
+  }
+  return clips;
+}
+
+/** One batch task per segment of the video, all running the same prompt. */
+const segmentTasks = (
+  task: BatchTask,
+  durationSecs: number,
+  segmentSecs = DEFAULT_SEGMENT_SECS,
+): BatchTask[] =>
+  planSegments(durationSecs, segmentSecs).map((clip, i) => ({
+    ...task,
+    key: `${task.key}#${i}`,
+    name: `${formatTimecode(clip.startSecs, {withHours: durationSecs >= 3600})}–${formatTimecode(clip.endSecs, {withHours: durationSecs >= 3600})}`,
+    clip,
+  }));
+
+/**
+ * Moves a segment's timecodes onto the video's timeline. The model is asked
+ * for times relative to the segment, but answers that already use the
+ * video's timeline (every time inside the segment, some past its length)
+ * are kept as they are.
+ */
+function rebaseTimes(result: FunctionResult, clip: VideoClip): number[] {
+  const secs = result.timecodes.map(({time}) => timecodeToSecs(time));
+  const length = clip.endSecs - clip.startSecs;
+  const isAbsolute =
+    clip.startSecs > 0 &&
+    secs.every(
+      (t) =>
+        t >= clip.startSecs - BOUNDARY_TOLERANCE_SECS &&
+        t <= clip.endSecs + BOUNDARY_TOLERANCE_SECS,
+    ) &&
+    secs.some((t) => t > length + BOUNDARY_TOLERANCE_SECS);
+  const offset = isAbsolute ? 0 : clip.startSecs;
+  return secs.map((t) =>
+    Math.min(clip.endSecs, Math.max(clip.startSecs, t + offset)),
+  );
+}
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+
+// Texts from overlapping segments rarely match exactly, so compare words.
+function isSimilarText(a: string, b: string) {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / Math.max(1, Math.min(wordsA.size, wordsB.size)) >= 0.6;
+}
+
+// What an entry says, to recognise the same moment found by two segments.
+const entryText = (entry: MergeItem['entry']) =>
+  (entry as Timecode).text ??
+  (entry as Chapter).title ??
+  (entry as ObjectBox).label;
+
+interface MergeItem {
+  secs: number;
+  // End of the item's segment, which its range may not run past.
+  segmentEndSecs: number;
+  segment: number;
+  entry: FunctionResult['timecodes'][number];
+  // Values averaged into a numeric entry.
+  values?: number[];
+}
+
+function mostCommonName(results: FunctionResult[]): FunctionName {
+  const counts = new Map<FunctionName, number>();
+  results.forEach(({name}) => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Combines the finished segments of a segmented run into one result on the
+ * video's timeline. Entries that two overlapping segments both found are
+ * kept once, and chart values found twice are averaged. Returns null until
+ * a segment has finished.
+ */
+function mergeSegmentResults(entries: BatchEntry[]): GenerateResult | null {
+  const done = entries.filter(({result, task}) => result && task.clip);
+  if (done.length === 0) return null;
+  const withHours =
+    Math.max(...done.map(({task}) => task.clip.endSecs)) >= 3600;
+
+  const calls = done.filter(({result}) => result.name !== 'text');
+  if (calls.length === 0) {
+    return {
+      name: 'text',
+      text: done
+        .map(
+          ({task, result}) =>
+            `[${task.name}] ${(result as {text: string}).text}`,
+        )
+        .join('\n\n'),
+    };
+  }
+
+  // Segments may call different functions; keep the one most of them used.
+  const name = mostCommonName(
+    calls.map(({result}) => result as FunctionResult),
+  );
+  const items: MergeItem[] = calls
+    .filter(({result}) => result.name === name)
+    .flatMap(({result, task}, segment) => {
+      const timecodes = (result as FunctionResult).timecodes;
+      const secs = rebaseTimes(result as FunctionResult, task.clip);
+      return timecodes.map((entry, i) => ({
+        secs: secs[i],
+        segmentEndSecs: task.clip.endSecs,
+        segment,
+        entry,
+      }));
+    })
+    .sort((a, b) => a.secs - b.secs);
+
+  const merged: MergeItem[] = [];
+  for (const item of items) {
+    let duplicate: MergeItem | undefined;
+    for (let i = merged.length - 1; i >= 0; i--) {
+      const candidate = merged[i];
+      if (item.secs - candidate.secs > DUPLICATE_WINDOW_SECS) break;
+      if (
+        candidate.segment !== item.segment &&
+        (name === 'set_timecodes_with_numeric_values' ||
+          isSimilarText(entryText(candidate.entry), entryText(item.entry)))
+      ) {
+        duplicate = candidate;
+        break;
+      }
+    }
+    if (!duplicate) {
+      merged.push({...item});
+    } else if (name === 'set_timecodes_with_numeric_values') {
+      duplicate.values = [
+        ...(duplicate.values ?? [(duplicate.entry as NumericTimecode).value]),
+        (item.entry as NumericTimecode).value,
+      ];
+    }
+  }
+
+  // Chapters from neighbouring segments can land close together; drop those
+  // that would make the chapter before them too short.
+  const kept =
+    name === 'set_chapters'
+      ? merged.reduce<MergeItem[]>((chapters, item) => {
+          const previous = chapters[chapters.length - 1];
+          return previous && item.secs - previous.secs < MIN_CHAPTER_SECS
+            ? chapters
+            : [...chapters, item];
+        }, [])
+      : merged;
+
+  return {
+    name,
+    timecodes: kept.map(({secs, segmentEndSecs, entry, values}) => ({
+      ...entry,
+      time: formatTimecode(secs, {withHours}),
+      // Ranges keep their length, up to the end of their segment.
+      ...('end' in entry
+        ? {
+            end: formatTimecode(
+              Math.min(
+                segmentEndSecs,
+                secs + timecodeToSecs(entry.end) - timecodeToSecs(entry.time),
+              ),
+              {withHours},
+            ),
+          }
+        : {}),
+      ...(values
+        ? {value: values.reduce((sum, v) => sum + v, 0) / values.length}
+        : {}),
+    })),
+  } as FunctionResult;
+}
+
+export {
+  DEFAULT_SEGMENT_SECS,
+  mergeSegmentResults,
+  planSegments,
+  SEGMENT_LENGTH_CHOICES,
+  segmentTasks,
+};
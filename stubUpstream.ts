@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Stand-in for generativelanguage.googleapis.com that answers the REST calls
+// the proxy forwards with the fake provider's deterministic responses. Start
+// it with `npm run stub-upstream` and run the proxy with
+// PROXY_UPSTREAM=http://localhost:8788 to exercise the whole path offline.
+// It also lists playlists like the YouTube Data API, for
+// PROXY_YOUTUBE_UPSTREAM=http://localhost:8788.
+// Requests without an API key are rejected, which checks that the proxy
+// attaches one.
+
+import {
+  Content,
+  File as GenAIFile,
+  FileState,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  Modality,
+  SpeechConfig,
+  Tool,
+} from '@google/genai';
+import http, {IncomingMessage, ServerResponse} from 'http';
+import {createFakeProvider} from './fakeProvider';
+
+const port = Number(process.env.STUB_PORT) || 8788;
+const fake = createFakeProvider();
+
+interface UploadSession {
+  displayName: string;
+  mimeType: string;
+  totalBytes: number;
+  received: number;
+}
+
+// The body of a generateContent or streamGenerateContent REST request.
+interface GenerateContentBody {
+  contents: Content[];
+  systemInstruction?: Content;
+  tools?: Tool[];
+  cachedContent?: string;
+  // Sampling, response and speech settings, e.g. responseModalities.
+  generationConfig?: Omit<
+    GenerateContentConfig,
+    'systemInstruction' | 'tools' | 'cachedContent' | 'speechConfig'
+  > & {speechConfig?: SpeechConfig};
+}
+
+const uploads = new Map<string, UploadSession>();
+const files = new Map<string, GenAIFile>();
+let uploadCount = 0;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+}
+
+const sendError = (res: ServerResponse, code: number, message: string) =>
+  sendJson(res, code, {error: {code, message, status: 'STUB_ERROR'}});
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+// REST requests carry generation settings in generationConfig; the provider
+// interface takes them flat in config, like the SDK does.
+const toGenerateParams = (
+  model: string,
+  body: GenerateContentBody,
+): GenerateContentParameters => ({
+  model,
+  contents: body.contents,
+  config: {
+    systemInstruction: body.systemInstruction,
+    tools: body.tools,
+    cachedContent: body.cachedContent,
+    ...body.generationConfig,
+  },
+});
+
+async function handleUpload(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+) {
+  const command = String(req.headers['x-goog-upload-command'] ?? '');
+  const body = await readBody(req);
+
+  if (command === 'start') {
+    const id = String(++uploadCount);
+    uploads.set(id, {
+      displayName: JSON.parse(body.toString() || '{}').file?.displayName,
+      mimeType: String(req.headers['x-goog-upload-header-content-type'] ?? ''),
+      totalBytes: Number(req.headers['x-goog-upload-header-content-length']),
+      received: 0,
+    });
+    res.writeHead(200, {
+      'x-goog-upload-url': `http://localhost:${port}/upload/v1beta/files?upload_id=${id}&upload_protocol=resumable`,
+      'x-goog-upload-status': 'active',
+    });
+    res.end();
+    return;
+  }
+
+  const id = url.searchParams.get('upload_id') ?? '';
+  const session = uploads.get(id);
+  if (!session) {
+    sendError(res, 404, `No upload session ${id}.`);
+    return;
+  }
+  if (command === 'query') {
+    res.writeHead(200, {
+      'x-goog-upload-status': 'active',
+      'x-goog-upload-size-received': String(session.received),
+    });
+    res.end();
+    return;
+  }
+
+  const offset = Number(req.headers['x-goog-upload-offset']);
+  if (offset !== session.received) {
+    sendError(res, 400, `Expected offset ${session.received}, got ${offset}.`);
+    return;
+  }
+  session.received += body.length;
+  if (!command.includes('finalize')) {
+    res.writeHead(200, {'x-goog-upload-status': 'active'});
+    res.end();
+    return;
+  }
+
+  uploads.delete(id);
+  const now = Date.now();
+  const file: GenAIFile = {
+    name: `files/stub-${id}`,
+    displayName: session.displayName,
+    mimeType: session.mimeType,
+    sizeBytes: String(session.received),
+    uri: `http://localhost:${port}/v1beta/files/stub-${id}`,
+    // Reported as processing once, so the client's polling is exercised.
+    state: FileState.PROCESSING,
+    createTime: new Date(now).toISOString(),
+    expirationTime: new Date(now + 48 * 60 * 60 * 1000).toISOString(),
+  };
+  files.set(file.name, file);
+  res.writeHead(200, {
+    'Content-Type': 'application/json',
+    'x-goog-upload-status': 'final',
+  });
+  res.end(JSON.stringify({file}));
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  if (!req.headers['x-goog-api-key']) {
+    sendError(res, 400, 'API key not valid. Please pass a valid API key.');
+    return;
+  }
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+  const method = req.method ?? 'GET';
+
+  if (url.pathname === '/upload/v1beta/files' && method === 'POST') {
+    await handleUpload(req, res, url);
+    return;
+  }
+
+  if (url.pathname === '/youtube/v3/playlistItems' && method === 'GET') {
+    const videos = await fake.listPlaylistVideos(
+      url.searchParams.get('playlistId') ?? '',
+    );
+    sendJson(res, 200, {
+      items: videos.map(({videoId, title, thumbnailUrl}) => ({
+        snippet: {
+          title,
+          resourceId: {kind: 'youtube#video', videoId},
+          thumbnails: {default: {url: thumbnailUrl}},
+        },
+      })),
+    });
+    return;
+  }
+
+  const fileName = url.pathname.match(/^\/v1beta\/(files\/[\w-]+)$/)?.[1];
+  if (fileName) {
+    const file = files.get(fileName);
+    if (!file) {
+      sendError(res, 404, `File ${fileName} not found.`);
+    } else if (method === 'DELETE') {
+      files.delete(fileName);
+      sendJson(res, 200, {});
+    } else {
+      sendJson(res, 200, file);
+      file.state = FileState.ACTIVE;
+    }
+    return;
+  }
+
+  if (url.pathname === '/v1beta/cachedContents' && method === 'POST') {
+    const {model, ...config} = JSON.parse((await readBody(req)).toString());
+    sendJson(
+      res,
+      200,
+      await fake.createCache({model: model.replace(/^models\//, ''), config}),
+    );
+    return;
+  }
+  const cacheName = url.pathname.match(
+    /^\/v1beta\/(cachedContents\/[\w-]+)$/,
+  )?.[1];
+  if (cacheName) {
+    if (method === 'DELETE') {
+      await fake.deleteCache(cacheName);
+      sendJson(res, 200, {});
+    } else {
+      const config = JSON.parse((await readBody(req)).toString() || '{}');
+      sendJson(res, 200, await fake.updateCache({name: cacheName, config}));
+    }
+    return;
+  }
+
+  const [, model, action] =
+    url.pathname.match(/^\/v1beta\/models\/([\w.-]+):(\w+)$/) ?? [];
+  if (!model || method !== 'POST') {
+    sendError(res, 404, `Stub has no route for ${method} ${url.pathname}.`);
+    return;
+  }
+  const body = JSON.parse((await readBody(req)).toString() || '{}');
+
+  switch (action) {
+    case 'generateContent': {
+      const {generationConfig} = body as GenerateContentBody;
+      if (generationConfig?.responseModalities?.includes(Modality.AUDIO)) {
+        const text = JSON.stringify(body.contents);
+        const voice =
+          generationConfig.speechConfig?.voiceConfig?.prebuiltVoiceConfig
+            ?.voiceName ?? '';
+        const wav = await fake.synthesizeSpeech(model, text, voice);
+        // Gemini returns bare PCM; drop the 44-byte WAV header.
+        const pcm = Buffer.from(await wav.arrayBuffer()).subarray(44);
+        sendJson(res, 200, {
+          candidates: [
+            {
+              content: {
+                role: 'model',
+                parts: [
+                  {
+                    inlineData: {
+                      mimeType: 'audio/L16;codec=pcm;rate=24000',
+                      data: pcm.toString('base64'),
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        });
+        return;
+      }
+      sendJson(
+        res,
+        200,
+        await fake.generateContent(toGenerateParams(model, body)),
+      );
+      return;
+    }
+    case 'streamGenerateContent': {
+      const stream = await fake.generateContentStream(
+        toGenerateParams(model, body),
+      );
+      res.writeHead(200, {'Content-Type': 'text/event-stream'});
+      for await (const chunk of stream) {
+        res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+      }
+      res.end();
+      return;
+    }
+    case 'countTokens':
+      sendJson(res, 200, {
+        totalTokens: await fake.countTokens({model, contents: body.contents}),
+      });
+      return;
+    case 'embedContent':
+    case 'batchEmbedContents': {
+      const requests = body.requests ?? [body];
+      const texts = requests.map(({content}) =>
+        (content?.parts ?? []).map((part) => part.text ?? '').join(' '),
+      );
+      const vectors = await fake.embed(model, texts);
+      const embeddings = vectors.map((values) => ({values}));
+      sendJson(
+        res,
+        200,
+        action === 'embedContent' ? {embedding: embeddings[0]} : {embeddings},
+      );
+      return;
+    }
+    default:
+      sendError(res, 404, `Stub does not implement ${action}.`);
+  }
+}
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((e) => {
+      console.error(e);
+      const message = (e as Error).message;
+      if (!res.headersSent) {
+        sendError(res, /not found|404/i.test(message) ? 404 : 500, message);
+      } else {
+        res.end();
+      }
+    });
+  })
+  .listen(port, () => {
+    console.log(`Stub upstream listening on http://localhost:${port}`);
+  });
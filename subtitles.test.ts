@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {Cue, entryText, parseSubtitles, toSrt, toVtt} from './subtitles';
+
+const cues: Cue[] = [
+  {startSecs: 1, endSecs: 2.5, text: 'Tom & Jerry <laughs>'},
+  {startSecs: 3, endSecs: 4, text: 'A --> B'},
+  {startSecs: 5, endSecs: 6, text: 'First line\n\nSecond line'},
+];
+
+describe('entryText', () => {
+  it('names entries of every kind', () => {
+    expect(
+      entryText(
+        {
+          name: 'set_transcript',
+          timecodes: [
+            {time: '00:01', end: '00:02', speaker: 'Ann', text: 'Hi'},
+          ],
+        },
+        {time: '00:01', end: '00:02', speaker: 'Ann', text: 'Hi'},
+      ),
+    ).toBe('Ann: Hi');
+    expect(
+      entryText(
+        {
+          name: 'set_timecodes_with_numeric_values',
+          timecodes: [{time: '00:01', value: 42}],
+        },
+        {time: '00:01', value: 42},
+      ),
+    ).toBe('42');
+    expect(
+      entryText(
+        {name: 'set_chapters', timecodes: [{time: '00:00', title: 'Intro'}]},
+        {time: '00:00', title: 'Intro'},
+      ),
+    ).toBe('Intro');
+  });
+});
+
+describe('toVtt', () => {
+  it('escapes cue text', () => {
+    expect(toVtt(cues)).toBe(
+      [
+        'WEBVTT',
+        '1\n00:00:01.000 --> 00:00:02.500\nTom &amp; Jerry &lt;laughs>',
+        '2\n00:00:03.000 --> 00:00:04.000\nA -> B',
+        '3\n00:00:05.000 --> 00:00:06.000\nFirst line\nSecond line',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('reads back what it writes', () => {
+    expect(parseSubtitles(toVtt(cues)).map(({text}) => text)).toEqual([
+      'Tom & Jerry <laughs>',
+      'A -> B',
+      'First line Second line',
+    ]);
+  });
+});
+
+describe('toSrt', () => {
+  it('keeps markup characters and breaks up timing arrows', () => {
+    expect(toSrt(cues)).toBe(
+      [
+        '1\n00:00:01,000 --> 00:00:02,500\nTom & Jerry <laughs>',
+        '2\n00:00:03,000 --> 00:00:04,000\nA -> B',
+        '3\n00:00:05,000 --> 00:00:06,000\nFirst line\nSecond line',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('reads back what it writes', () => {
+    // Like SRT players, the reader takes <laughs> for a tag.
+    expect(parseSubtitles(toSrt(cues))).toEqual([
+      {startSecs: 1, endSecs: 2.5, text: 'Tom & Jerry'},
+      {startSecs: 3, endSecs: 4, text: 'A -> B'},
+      {startSecs: 5, endSecs: 6, text: 'First line Second line'},
+    ]);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {
+  Chapter,
+  FunctionResult,
+  NumericTimecode,
+  ObjectBox,
+  TranscriptSegment,
+} from './results';
+import {
+  formatCueTime,
+  formatTimecode,
+  parseTimecode,
+  timecodeToSecs,
+} from './timecode';
+
+// Text shown from startSecs until endSecs.
+interface Cue {
+  startSecs: number;
+  endSecs: number;
+  text: string;
+}
+
+// Any entry of a result, with the fields of every kind.
+type ResultEntry = {time: string} & Partial<
+  TranscriptSegment & NumericTimecode & Chapter & ObjectBox
+>;
+
+// How long the last subtitle shows when the video's length isn't known.
+const LAST_CUE_SECS = 5;
+// A time at the start of a line of a plain transcript, with an optional end:
+// 01:23, [1:02:03], (01:23.5 - 01:30).
+const TIME = String.raw`\d{1,2}(?::\d{2}){1,2}(?:[.,]\d+)?`;
+const TRANSCRIPT_LINE = new RegExp(
+  String.raw`^[\[(]?(${TIME})(?:\s*(?:-->|-|–)\s*(${TIME}))?[\])]?\s*[-–—:|]?\s*(.*)$`,
+);
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+};
+
+// What an entry of a result says, as a cue or a timeline marker.
+function entryText(result: FunctionResult, entry: ResultEntry) {
+  switch (result.name) {
+    case 'set_transcript':
+      return `${entry.speaker}: ${entry.text}`;
+    case 'set_timecodes_with_numeric_values':
+      return String(entry.value);
+    default:
+      return entry.text ?? entry.title ?? entry.label ?? '';
+  }
+}
+
+// Cue text without "-->", which starts a timing line, or a blank line, which
+// ends the cue. SRT has no escaping, so this is all it gets.
+const srtCueText = (text: string) =>
+  text.replace(/-->/g, '->').replace(/\n\s*\n/g, '\n');
+
+// WebVTT reads & and < as markup, so they need entities too.
+const vttCueText = (text: string) =>
+  srtCueText(text.replace(/&/g, '&amp;').replace(/</g, '&lt;'));
+
+/** The entries of a result that have an end, in order, as cues. */
+const resultCues = (result: FunctionResult): Cue[] =>
+  (result.timecodes as ResultEntry[])
+    .flatMap((entry) =>
+      entry.end === undefined
+        ? []
+        : [
+            {
+              startSecs: timecodeToSecs(entry.time),
+              endSecs: timecodeToSecs(entry.end),
+              text: entryText(result, entry),
+            },
+          ],
+    )
+    .sort((a, b) => a.startSecs - b.startSecs);
+
+/**
+ * Every entry of a result as a subtitle cue. An entry without an end shows
+ * until the next one starts; the last one until the end of the video.
+ */
+function subtitleCues(result: FunctionResult, durationSecs?: number): Cue[] {
+  const entries = (result.timecodes as ResultEntry[])
+    .map((entry) => ({entry, startSecs: timecodeToSecs(entry.time)}))
+    .sort((a, b) => a.startSecs - b.startSecs);
+  return entries.map(({entry, startSecs}, i) => {
+    const nextSecs = entries[i + 1]?.startSecs;
+    const endSecs =
+      entry.end !== undefined
+        ? timecodeToSecs(entry.end)
+        : (nextSecs ??
+          (durationSecs > startSecs
+            ? durationSecs
+            : startSecs + LAST_CUE_SECS));
+    return {startSecs, endSecs, text: entryText(result, entry)};
+  });
+}
+
+// The cue playing at `secs`, if any.
+const cueAt = (cues: Cue[], secs: number) =>
+  cues.find(({startSecs, endSecs}) => startSecs <= secs && secs < endSecs);
+
+/** SubRip subtitles. */
+const toSrt = (cues: Cue[]) =>
+  cues
+    .map(
+      ({startSecs, endSecs, text}, i) =>
+        `${i + 1}\n${formatCueTime(startSecs, ',')} --> ${formatCueTime(endSecs, ',')}\n${srtCueText(text)}`,
+    )
+    .join('\n\n') + '\n';
+
+/** A WebVTT file, for subtitles or a chapters track. */
+const toVtt = (cues: Cue[]) =>
+  [
+    'WEBVTT',
+    ...cues.map(
+      ({startSecs, endSecs, text}, i) =>
+        `${i + 1}\n${formatCueTime(startSecs)} --> ${formatCueTime(endSecs)}\n${vttCueText(text)}`,
+    ),
+  ].join('\n\n') + '\n';
+
+// SubRip text as WebVTT, which is what a <track> element plays. SRT cues
+// differ only in the header and the comma before the milliseconds.
+const srtToVtt = (srt: string) => {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/(\d+:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+  return /^WEBVTT/.test(body) ? body : `WEBVTT\n\n${body}`;
+};
+
+// Cue text without markup; a WebVTT voice span becomes "Speaker: text".
+const plainCueText = (lines: string[]) =>
+  lines
+    .join(' ')
+    .replace(/<v(?:\.[\w.]+)?\s+([^>]+)>/g, '$1: ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(?:amp|lt|gt|nbsp);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+function parseTime(time: string, where: string) {
+  const parsed = parseTimecode(time);
+  if (parsed.ok === false) {
+    throw new Error(`${where}: invalid time "${time}": ${parsed.error}`);
+  }
+  return parsed.secs;
+}
+
+// SRT and WebVTT: blocks separated by blank lines, each with a timing line.
+// Blocks without one, like the WebVTT header and NOTEs, are skipped.
+function parseCueBlocks(text: string): Cue[] {
+  return text.split(/\n{2,}/).flatMap((block, i) => {
+    const lines = block.split('\n');
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    if (timing === -1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return [];
+    const [start, end] = lines[timing]
+      .split('-->')
+      .map((time) => time.trim().split(/\s+/)[0]);
+    const where = `Cue ${i + 1}`;
+    const text = plainCueText(lines.slice(timing + 1));
+    return text
+      ? [
+          {
+            startSecs: parseTime(start, where),
+            endSecs: parseTime(end, where),
+            text,
+          },
+        ]
+      : [];
+  });
+}
+
+// Lines that start with a time. A line without one continues the previous
+// line, and a line without an end lasts until the next one starts.
+function parseTranscriptLines(text: string): Cue[] {
+  const entries: {startSecs: number; endSecs?: number; lines: string[]}[] = [];
+  text.split('\n').forEach((line, i) => {
+    const match = line.trim().match(TRANSCRIPT_LINE);
+    if (match) {
+      const [, start, end, rest] = match;
+      const where = `Line ${i + 1}`;
+      entries.push({
+        startSecs: parseTime(start, where),
+        endSecs: end ? parseTime(end, where) : undefined,
+        lines: [rest],
+      });
+    } else if (line.trim()) {
+      entries[entries.length - 1]?.lines.push(line);
+    }
+  });
+  return entries.flatMap(({startSecs, endSecs, lines}, i) => {
+    const text = plainCueText(lines);
+    if (!text) return [];
+    return [
+      {
+        startSecs,
+        endSecs:
+          endSecs ?? entries[i + 1]?.startSecs ?? startSecs + LAST_CUE_SECS,
+        text,
+      },
+    ];
+  });
+}
+
+/**
+ * Reads SRT, WebVTT or a plain transcript with a time at the start of each
+ * line into cues, in order. Throws if a time can't be read or nothing in the
+ * text has a time.
+ */
+function parseSubtitles(text: string): Cue[] {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues = normalized.includes('-->')
+    ? parseCueBlocks(normalized)
+    : parseTranscriptLines(normalized);
+  if (cues.length === 0) {
+    throw new Error(
+      'No timed lines were found. Use SRT, WebVTT or lines that start with a time, like 01:23.',
+    );
+  }
+  return cues.sort((a, b) => a.startSecs - b.startSecs);
+}
+
+/**
+ * An imported transcript as context for the model, so it can rely on the
+ * existing captions for what is said instead of transcribing the audio.
+ */
+const transcriptContext = (cues: Cue[]) =>
+  `An existing transcript of the video, with the time each line starts:
+${cues.map(({startSecs, text}) => `[${formatTimecode(startSecs)}] ${text}`).join('\n')}
+Use this transcript for what is said in the video instead of transcribing \
+the audio yourself.`;
+
+// A mode's prompt with the imported transcript, if there is one.
+const withTranscript = (prompt: string, cues: Cue[] | null) =>
+  cues?.length > 0 ? `${prompt}\n\n${transcriptContext(cues)}` : prompt;
+
+export {
+  cueAt,
+  entryText,
+  parseSubtitles,
+  resultCues,
+  srtToVtt,
+  subtitleCues,
+  toSrt,
+  toVtt,
+  transcriptContext,
+  withTranscript,
+};
+export type {Cue, ResultEntry};
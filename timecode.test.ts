@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {
+  formatCueTime,
+  formatSmpte,
+  formatTimecode,
+  normalizeTimecode,
+  parseTimecode,
+  timecodeToSecs,
+} from './timecode';
+
+const secsOf = (input: string | number, fps?: number) => {
+  const parsed = parseTimecode(input, {fps});
+  if (parsed.ok === false) throw new Error(parsed.error);
+  return parsed.secs;
+};
+
+const errorOf = (input: unknown, fps?: number) => {
+  const parsed = parseTimecode(input as string, {fps});
+  return parsed.ok === false ? parsed.error : null;
+};
+
+describe('parseTimecode', () => {
+  it.each([
+    ['0:00', 0],
+    ['1:02', 62],
+    ['01:02', 62],
+    ['75:00', 4500],
+    ['1:02:03', 3723],
+    ['01:02:03.500', 3723.5],
+    ['01:02,5', 62.5],
+    ['90', 90],
+    ['12.5', 12.5],
+  ])('reads the clock time %s', (input, secs) => {
+    expect(secsOf(input)).toBe(secs);
+  });
+
+  it.each([
+    ['[00:15]', 15],
+    ['(1:02)', 62],
+    ['[1:02:03.500]', 3723.5],
+    [' [ 90s ] ', 90],
+    ['(42)', 42],
+  ])('reads %s in brackets', (input, secs) => {
+    expect(secsOf(input)).toBe(secs);
+  });
+
+  it.each([
+    ['90s', 90],
+    ['1m', 60],
+    ['1m30s', 90],
+    ['1M30S', 90],
+    ['1h', 3600],
+    ['1h 5m', 3900],
+    ['1h2m3.5s', 3723.5],
+    ['2.5m', 150],
+  ])('reads the unit suffixes in %s', (input, secs) => {
+    expect(secsOf(input)).toBe(secs);
+  });
+
+  it('takes numbers as seconds', () => {
+    expect(secsOf(0)).toBe(0);
+    expect(secsOf(12.25)).toBe(12.25);
+  });
+
+  it.each([
+    ['00:00:01:00', 25, 1],
+    ['00:00:00:12', 25, 0.48],
+    ['01:02:03:12', 25, 3723.48],
+    ['00:00:10:12', 24, 10.5],
+    ['00:00:01:30', 60, 1.5],
+  ])('reads the non-drop-frame timecode %s at %s fps', (input, fps, secs) => {
+    expect(secsOf(input, fps)).toBeCloseTo(secs, 9);
+  });
+
+  it.each([
+    // Non-drop labels count 30 frames a second but play at 29.97.
+    ['00:01:00:00', 29.97, 1800],
+    ['00:00:01:15', 29.97, 45],
+    ['01:00:00:00', 29.97, 108000],
+    ['00:00:01:00', 23.976, 24],
+    ['01:00:00:00', 59.94, 216000],
+  ])(
+    'reads the non-drop-frame timecode %s at %s fps by frame count',
+    (input, fps, frame) => {
+      expect(secsOf(input, fps) * fps).toBeCloseTo(frame, 6);
+    },
+  );
+
+  it.each([
+    // The first label of minute 1 is ;02 as ;00 and ;01 are skipped.
+    ['00:01:00;02', 29.97, 1800],
+    ['00:01:59;29', 29.97, 3597],
+    // Every tenth minute keeps all its labels.
+    ['00:10:00;00', 29.97, 17982],
+    ['01:00:00;00', 29.97, 107892],
+    ['00:01:00;04', 59.94, 3600],
+    ['01:00:00;00', 59.94, 215784],
+  ])('reads the drop-frame timecode %s at %s fps', (input, fps, frame) => {
+    expect(secsOf(input, fps) * fps).toBeCloseTo(frame, 6);
+  });
+
+  it.each([
+    ['', 'the timecode is empty'],
+    ['[ ]', 'the timecode is empty'],
+    ['abc', 'use MM:SS or HH:MM:SS'],
+    ['1:2:3:4:5', 'use MM:SS or HH:MM:SS'],
+    ['-5', 'use MM:SS or HH:MM:SS'],
+    ['1:60', 'seconds must be below 60'],
+    ['1:75:00', 'minutes must be below 60'],
+  ])('reports what is wrong with %j', (input, error) => {
+    expect(errorOf(input)).toBe(error);
+  });
+
+  it('reports numbers that are not times', () => {
+    expect(errorOf(-1)).toBe('-1 is not a time');
+    expect(errorOf(NaN)).toBe('NaN is not a time');
+    expect(errorOf(Infinity)).toBe('Infinity is not a time');
+  });
+
+  it('reports input that is not text', () => {
+    expect(errorOf(null)).toBe('a timecode must be a string or a number');
+    expect(errorOf({})).toBe('a timecode must be a string or a number');
+  });
+
+  it('reports SMPTE timecodes it cannot read', () => {
+    expect(errorOf('00:00:01:00')).toBe(
+      'a timecode with frames needs a frame rate',
+    );
+    expect(errorOf('00:00:01:25', 25)).toBe(
+      'frames must be below 25 at 25 fps',
+    );
+    expect(errorOf('00:00:01;30', 29.97)).toBe(
+      'frames must be below 30 at 29.97 fps',
+    );
+    expect(errorOf('00:61:00:00', 25)).toBe(
+      'minutes and seconds must be below 60',
+    );
+    expect(errorOf('00:00:01;00', 25)).toBe(
+      'drop-frame timecode needs an NTSC rate, not 25 fps',
+    );
+    expect(errorOf('00:01:00;01', 29.97)).toBe(
+      'frames 0 to 1 are skipped at the start of minute 1',
+    );
+    expect(errorOf('00:01:00;03', 59.94)).toBe(
+      'frames 0 to 3 are skipped at the start of minute 1',
+    );
+  });
+
+  it.each([
+    ['00:05', 5],
+    ['1:05', 65],
+    ['01:02:03', 3723],
+    ['1:02:03.500', 3723.5],
+    [' 12:34 ', 754],
+  ])('reads %j strictly', (input, secs) => {
+    expect(parseTimecode(input, {strict: true})).toEqual({ok: true, secs});
+  });
+
+  it.each([
+    // The model answer the validator must reject, not read as 01:05.
+    ['1:5', 'use MM:SS or HH:MM:SS with two-digit seconds'],
+    ['1:02:3', 'use MM:SS or HH:MM:SS with two-digit seconds'],
+    ['90', 'use MM:SS or HH:MM:SS with two-digit seconds'],
+    ['1m30s', 'use MM:SS or HH:MM:SS with two-digit seconds'],
+    ['[00:15]', 'use MM:SS or HH:MM:SS with two-digit seconds'],
+    ['01:02,5', 'use MM:SS or HH:MM:SS with two-digit seconds'],
+    ['75:00', 'minutes must be below 60, use HH:MM:SS'],
+    ['1:60', 'seconds must be below 60'],
+  ])('rejects %j strictly', (input, error) => {
+    expect(parseTimecode(input, {strict: true})).toEqual({ok: false, error});
+  });
+});
+
+describe('timecodeToSecs', () => {
+  it('returns the seconds', () => {
+    expect(timecodeToSecs('[01:30]')).toBe(90);
+  });
+
+  it('throws the parse error', () => {
+    expect(() => timecodeToSecs('abc')).toThrow(
+      'Invalid timecode "abc": use MM:SS or HH:MM:SS',
+    );
+  });
+});
+
+describe('formatTimecode', () => {
+  it('shows hours only from an hour on', () => {
+    expect(formatTimecode(0)).toBe('00:00');
+    expect(formatTimecode(62)).toBe('01:02');
+    expect(formatTimecode(3599)).toBe('59:59');
+    expect(formatTimecode(3600)).toBe('01:00:00');
+    expect(formatTimecode(36000)).toBe('10:00:00');
+  });
+
+  it('shows hours when asked', () => {
+    expect(formatTimecode(62, {withHours: true})).toBe('00:01:02');
+    expect(formatTimecode(3723, {withHours: false})).toBe('62:03');
+  });
+
+  it('rounds to the second', () => {
+    expect(formatTimecode(59.6)).toBe('01:00');
+    expect(formatTimecode(1.4)).toBe('00:01');
+    expect(formatTimecode(-5)).toBe('00:00');
+  });
+
+  it('shows milliseconds', () => {
+    expect(formatTimecode(62.5, {ms: true})).toBe('01:02.500');
+    expect(formatTimecode(59.9996, {ms: true})).toBe('01:00.000');
+    expect(formatTimecode(1.25, {ms: true, separator: ','})).toBe('00:01,250');
+  });
+
+  it('formats cue times for WebVTT and SRT', () => {
+    expect(formatCueTime(3723.5)).toBe('01:02:03.500');
+    expect(formatCueTime(1.25, ',')).toBe('00:00:01,250');
+  });
+});
+
+describe('formatSmpte', () => {
+  it('formats non-drop-frame timecode', () => {
+    expect(formatSmpte(0, 25)).toBe('00:00:00:00');
+    expect(formatSmpte(3723.48, 25)).toBe('01:02:03:12');
+    expect(formatSmpte(10.5, 24)).toBe('00:00:10:12');
+    expect(formatSmpte(1.5, 60)).toBe('00:00:01:30');
+  });
+
+  it('formats drop-frame timecode at the NTSC rates', () => {
+    expect(formatSmpte(1800 / 29.97, 29.97, true)).toBe('00:01:00;02');
+    expect(formatSmpte(17982 / 29.97, 29.97, true)).toBe('00:10:00;00');
+    expect(formatSmpte(3600 / 59.94, 59.94, true)).toBe('00:01:00;04');
+    expect(formatSmpte(215784 / 59.94, 59.94, true)).toBe('01:00:00;00');
+  });
+
+  it('ignores drop-frame at whole rates', () => {
+    expect(formatSmpte(60, 30, true)).toBe('00:01:00:00');
+  });
+
+  it.each([29.97, 59.94])(
+    'reads back its drop-frame labels at %s fps',
+    (fps) => {
+      // Steps of 997 frames land in every minute of two hours.
+      for (let frame = 0; frame < fps * 7200; frame += 997) {
+        const label = formatSmpte(frame / fps, fps, true);
+        expect(secsOf(label, fps) * fps).toBeCloseTo(frame, 6);
+      }
+    },
+  );
+
+  it.each([23.976, 24, 25, 29.97, 30, 50, 59.94, 60])(
+    'reads back its non-drop-frame labels at %s fps',
+    (fps) => {
+      for (let frame = 0; frame < fps * 7200; frame += 997) {
+        const label = formatSmpte(frame / fps, fps);
+        expect(secsOf(label, fps) * fps).toBeCloseTo(frame, 6);
+      }
+    },
+  );
+});
+
+describe('normalizeTimecode', () => {
+  it('rewrites timecodes in the app form', () => {
+    expect(normalizeTimecode('[1:2]')).toBe('01:02');
+    expect(normalizeTimecode('1m30s')).toBe('01:30');
+    expect(normalizeTimecode('90.25')).toBe('01:30.250');
+    expect(normalizeTimecode(3723)).toBe('01:02:03');
+    expect(normalizeTimecode('00:00:01:12', {fps: 25})).toBe('00:01.480');
+  });
+
+  it('throws on invalid input', () => {
+    expect(() => normalizeTimecode('soon')).toThrow('Invalid timecode');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Parses and formats the timecodes that models, users and subtitle or edit
+// files use. Every parser reports what is wrong with its input instead of
+// returning NaN.
+
+type TimecodeParse = {ok: true; secs: number} | {ok: false; error: string};
+
+interface ParseOptions {
+  // Frame rate for SMPTE timecodes (hh:mm:ss:ff), e.g. 25 or 29.97.
+  fps?: number;
+  // Only MM:SS or HH:MM:SS with two-digit seconds, as models must answer.
+  strict?: boolean;
+}
+
+interface FormatOptions {
+  // Defaults to hours only for times of an hour or more.
+  withHours?: boolean;
+  // Milliseconds after the seconds, e.g. 01:02.500.
+  ms?: boolean;
+  // What separates the milliseconds; SRT uses a comma.
+  separator?: '.' | ',';
+}
+
+// [h:]m:s with optional fractional seconds, e.g. 1:02, 01:02:03.500.
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d+):(\d+(?:[.,]\d+)?)$/;
+// mm:ss or hh:mm:ss, optionally with fractional seconds.
+const STRICT_CLOCK_PATTERN = /^(?:(\d{1,2}):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/;
+// hh:mm:ss:ff, or hh:mm:ss;ff for drop-frame.
+const SMPTE_PATTERN = /^(\d+):(\d+):(\d+)([:;])(\d+)$/;
+// Units, e.g. 90s, 1m30s, 1h2m3.5s, 1h 5m.
+const UNITS_PATTERN =
+  /^(?=\d)(?:(\d+(?:\.\d+)?)h)?\s*(?:(\d+(?:\.\d+)?)m)?\s*(?:(\d+(?:\.\d+)?)s)?$/;
+const SECONDS_PATTERN = /^\d+(?:\.\d+)?$/;
+
+const fail = (error: string): TimecodeParse => ({ok: false, error});
+
+// Frames dropped per minute by drop-frame timecode, which only exists for
+// the NTSC rates (29.97 and 59.94).
+const droppedFrames = (fps: number) =>
+  Number.isInteger(fps) ? 0 : Math.round(fps / 15);
+
+function parseSmpte(
+  [, hours, minutes, seconds, separator, frames]: RegExpMatchArray,
+  fps?: number,
+): TimecodeParse {
+  if (!(fps > 0)) {
+    return fail('a timecode with frames needs a frame rate');
+  }
+  const nominal = Math.round(fps);
+  const [h, m, s, f] = [hours, minutes, seconds, frames].map(Number);
+  if (m > 59 || s > 59) {
+    return fail('minutes and seconds must be below 60');
+  }
+  if (f >= nominal) {
+    return fail(`frames must be below ${nominal} at ${fps} fps`);
+  }
+  if (separator === ';') {
+    const drop = droppedFrames(fps);
+    if (drop === 0) {
+      return fail(`drop-frame timecode needs an NTSC rate, not ${fps} fps`);
+    }
+    if (s === 0 && f < drop && m % 10 !== 0) {
+      return fail(
+        `frames 0 to ${drop - 1} are skipped at the start of minute ${m}`,
+      );
+    }
+    // Frame labels skip `drop` numbers each minute, except every tenth.
+    const totalMinutes = h * 60 + m;
+    const frame =
+      (totalMinutes * 60 + s) * nominal +
+      f -
+      drop * (totalMinutes - Math.floor(totalMinutes / 10));
+    return {ok: true, secs: frame / fps};
+  }
+  // Non-drop labels count frames at the nominal rate, which runs slightly
+  // slower than real time at the NTSC rates.
+  return {ok: true, secs: (((h * 60 + m) * 60 + s) * nominal + f) / fps};
+}
+
+function parseClock([
+  ,
+  hours,
+  minutes,
+  seconds,
+]: RegExpMatchArray): TimecodeParse {
+  const h = hours === undefined ? 0 : Number(hours);
+  const m = Number(minutes);
+  const s = Number(seconds.replace(',', '.'));
+  if (s >= 60) {
+    return fail('seconds must be below 60');
+  }
+  // Without hours, minutes may run past 59, e.g. 75:00.
+  if (hours !== undefined && m > 59) {
+    return fail('minutes must be below 60');
+  }
+  return {ok: true, secs: h * 3600 + m * 60 + s};
+}
+
+/**
+ * Parses a timecode into seconds. Accepts [h:]m:s with optional fractional
+ * seconds, SMPTE hh:mm:ss:ff (with `fps`), units like 1m30s, a plain number
+ * of seconds, and any of these in [brackets] or (parentheses). With `strict`
+ * only MM:SS and HH:MM:SS are accepted.
+ */
+function parseTimecode(
+  input: string | number,
+  {fps, strict = false}: ParseOptions = {},
+): TimecodeParse {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) && input >= 0
+      ? {ok: true, secs: input}
+      : fail(`${input} is not a time`);
+  }
+  if (typeof input !== 'string') {
+    return fail('a timecode must be a string or a number');
+  }
+  if (strict) {
+    const clock = input.trim().match(STRICT_CLOCK_PATTERN);
+    if (!clock) {
+      return fail('use MM:SS or HH:MM:SS with two-digit seconds');
+    }
+    if (Number(clock[2]) > 59) {
+      return fail('minutes must be below 60, use HH:MM:SS');
+    }
+    return parseClock(clock);
+  }
+  const text = input
+    .trim()
+    .replace(/^\[(.*)\]$|^\((.*)\)$/, '$1$2')
+    .trim()
+    .toLowerCase();
+  if (!text) {
+    return fail('the timecode is empty');
+  }
+
+  const smpte = text.match(SMPTE_PATTERN);
+  if (smpte) return parseSmpte(smpte, fps);
+  const clock = text.match(CLOCK_PATTERN);
+  if (clock) return parseClock(clock);
+  if (SECONDS_PATTERN.test(text)) return {ok: true, secs: Number(text)};
+  const units = text.match(UNITS_PATTERN);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [h, m, s] = units.slice(1).map((n) => Number(n ?? 0));
+    return {ok: true, secs: h * 3600 + m * 60 + s};
+  }
+  return fail('use MM:SS or HH:MM:SS');
+}
+
+/** Like parseTimecode, but throws the parse error. */
+function timecodeToSecs(input: string | number, options?: ParseOptions) {
+  const parsed = parseTimecode(input, options);
+  if (parsed.ok === false) {
+    throw new Error(`Invalid timecode "${input}": ${parsed.error}`);
+  }
+  return parsed.secs;
+}
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+/** Formats seconds as mm:ss or hh:mm:ss, rounded to the second or the ms. */
+function formatTimecode(
+  secs: number,
+  {withHours, ms = false, separator = '.'}: FormatOptions = {},
+) {
+  const totalMs = ms
+    ? Math.round(Math.max(0, secs) * 1000)
+    : Math.round(Math.max(0, secs)) * 1000;
+  const total = Math.floor(totalMs / 1000);
+  const hours = withHours ?? total >= 3600;
+  const clock = hours
+    ? `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`
+    : `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+  return ms ? `${clock}${separator}${pad(totalMs % 1000, 3)}` : clock;
+}
+
+// hh:mm:ss.mmm as subtitle cues use it.
+const formatCueTime = (secs: number, separator: '.' | ',' = '.') =>
+  formatTimecode(secs, {withHours: true, ms: true, separator});
+
+/**
+ * Formats seconds as SMPTE hh:mm:ss:ff at `fps`, or hh:mm:ss;ff with
+ * drop-frame labels at the NTSC rates.
+ */
+function formatSmpte(secs: number, fps: number, dropFrame = false) {
+  const nominal = Math.round(fps);
+  let frame = Math.round(Math.max(0, secs) * fps);
+  const drop = dropFrame ? droppedFrames(fps) : 0;
+  if (drop > 0) {
+    // Adds back the labels skipped before this frame.
+    const perTenMinutes = nominal * 600 - drop * 9;
+    const perMinute = nominal * 60 - drop;
+    const tens = Math.floor(frame / perTenMinutes);
+    const rest = frame % perTenMinutes;
+    frame +=
+      drop * 9 * tens +
+      (rest > drop ? drop * Math.floor((rest - drop) / perMinute) : 0);
+  }
+  const f = frame % nominal;
+  const totalSecs = Math.floor(frame / nominal);
+  return `${pad(Math.floor(totalSecs / 3600))}:${pad(Math.floor(totalSecs / 60) % 60)}:${pad(totalSecs % 60)}${drop > 0 ? ';' : ':'}${pad(f)}`;
+}
+
+/**
+ * Rewrites a timecode in the app's own form: mm:ss, or hh:mm:ss from an hour
+ * on, with milliseconds only when it has a fraction of a second.
+ */
+function normalizeTimecode(input: string | number, options?: ParseOptions) {
+  const secs = timecodeToSecs(input, options);
+  return formatTimecode(secs, {ms: Math.round(secs * 1000) % 1000 !== 0});
+}
+
+export {
+  formatCueTime,
+  formatSmpte,
+  formatTimecode,
+  normalizeTimecode,
+  parseTimecode,
+  timecodeToSecs,
+};
+export type {FormatOptions, ParseOptions, TimecodeParse};
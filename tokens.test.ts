@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {estimateTokens, formatTokenEstimate} from './tokens';
+
+const sections = (tokens: number) => [
+  {label: 'Video', tokens: Promise.resolve(tokens)},
+  {label: 'Prompt', contents: [{role: 'user', parts: [{text: 'Hi'}]}]},
+  {label: 'History', contents: []},
+];
+const countTokens = async () => 10;
+
+describe('estimateTokens', () => {
+  it('prices and limits listed models', async () => {
+    const estimate = await estimateTokens(
+      'gemini-2.5-flash',
+      sections(999_990),
+      countTokens,
+    );
+    expect(estimate).toEqual({
+      total: 1_000_000,
+      breakdown: [
+        {label: 'Video', tokens: 999_990},
+        {label: 'Prompt', tokens: 10},
+      ],
+      estimatedCost: 0.3,
+      limit: 1_048_576,
+      exceedsLimit: false,
+    });
+    expect(formatTokenEstimate(estimate)).toBe(
+      `${(1_000_000).toLocaleString()} tokens · ~$0.30`,
+    );
+  });
+
+  it('uses the long-context price for long prompts', async () => {
+    const short = await estimateTokens(
+      'gemini-2.5-pro',
+      sections(99_990),
+      countTokens,
+    );
+    const long = await estimateTokens(
+      'gemini-2.5-pro',
+      sections(399_990),
+      countTokens,
+    );
+    expect(short.estimatedCost).toBeCloseTo(0.125);
+    expect(long.estimatedCost).toBeCloseTo(1);
+  });
+
+  it('flags requests over the limit', async () => {
+    const estimate = await estimateTokens(
+      'gemini-2.0-flash',
+      sections(2_000_000),
+      countTokens,
+    );
+    expect(estimate.exceedsLimit).toBe(true);
+  });
+
+  it('leaves the cost and limit of unlisted models unknown', async () => {
+    const estimate = await estimateTokens(
+      'some-future-model',
+      sections(2_000_000),
+      countTokens,
+    );
+    expect(estimate).toMatchObject({
+      estimatedCost: null,
+      limit: null,
+      exceedsLimit: false,
+    });
+    expect(formatTokenEstimate(estimate)).toBe(
+      `${(2_000_010).toLocaleString()} tokens · cost unknown`,
+    );
+  });
+});
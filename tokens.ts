@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Content} from '@google/genai';
+
+// Prompts longer than this are billed at the long-context price, if any.
+const LONG_CONTEXT_TOKENS = 200_000;
+
+// Input limits and list prices (USD per million input tokens) used for the
+// pre-flight estimate. Output tokens aren't known before sending. Models not
+// listed here get an estimate without a limit or cost.
+const MODEL_INFO: Record<
+  string,
+  {
+    inputTokenLimit: number;
+    inputPricePerMillion: number;
+    longContextPricePerMillion?: number;
+  }
+> = {
+  'gemini-2.5-pro': {
+    inputTokenLimit: 1_048_576,
+    inputPricePerMillion: 1.25,
+    longContextPricePerMillion: 2.5,
+  },
+  'gemini-2.5-flash': {inputTokenLimit: 1_048_576, inputPricePerMillion: 0.3},
+  'gemini-2.5-flash-lite': {
+    inputTokenLimit: 1_048_576,
+    inputPricePerMillion: 0.1,
+  },
+  'gemini-2.0-flash': {inputTokenLimit: 1_048_576, inputPricePerMillion: 0.1},
+  'gemini-2.0-flash-lite': {
+    inputTokenLimit: 1_048_576,
+    inputPricePerMillion: 0.075,
+  },
+};
+
+interface TokenSection {
+  label: string;
+  contents?: Content[];
+  // Already known (or separately counted) size, e.g. a memoized video count.
+  tokens?: Promise<number>;
+}
+
+interface TokenEstimate {
+  total: number;
+  breakdown: {label: string; tokens: number}[];
+  // Null when the model isn't in MODEL_INFO.
+  estimatedCost: number | null;
+  limit: number | null;
+  exceedsLimit: boolean;
+}
+
+/**
+ * Counts each non-empty section separately so an oversize request can be
+ * explained part by part. `countTokens` does the actual API call.
+ */
+async function estimateTokens(
+  model: string,
+  sections: TokenSection[],
+  countTokens: (contents: Content[]) => Promise<number>,
+): Promise<TokenEstimate> {
+  const info = MODEL_INFO[model];
+  const breakdown = await Promise.all(
+    sections
+      .filter(
+        (section) =>
+          section.tokens ||
+          section.contents?.some((content) => content.parts?.length),
+      )
+      .map(async ({label, contents, tokens}) => ({
+        label,
+        tokens: await (tokens ?? countTokens(contents)),
+      })),
+  );
+  const total = breakdown.reduce((sum, {tokens}) => sum + tokens, 0);
+  if (!info) {
+    return {
+      total,
+      breakdown,
+      estimatedCost: null,
+      limit: null,
+      exceedsLimit: false,
+    };
+  }
+  const pricePerMillion =
+    total > LONG_CONTEXT_TOKENS
+      ? (info.longContextPricePerMillion ?? info.inputPricePerMillion)
+      : info.inputPricePerMillion;
+  return {
+    total,
+    breakdown,
+    estimatedCost: (total / 1_000_000) * pricePerMillion,
+    limit: info.inputTokenLimit,
+    exceedsLimit: total > info.inputTokenLimit,
+  };
+}
+
+const formatCost = (cost: number | null) =>
+  cost === null
+    ? 'cost unknown'
+    : cost < 0.01
+      ? `~<$0.01`
+      : `~$${cost.toFixed(2)}`;
+
+const formatTokenEstimate = (estimate: TokenEstimate) =>
+  `${estimate.total.toLocaleString()} tokens · ${formatCost(
+    estimate.estimatedCost,
+  )}`;
+
+// Explains which parts of a request push it over the model's input limit.
+const describeTokenOverflow = (estimate: TokenEstimate) =>
+  `This request needs ${estimate.total.toLocaleString()} tokens but the model \
+accepts at most ${estimate.limit.toLocaleString()}. Breakdown: ${estimate.breakdown
+    .map(({label, tokens}) => `${label} ${tokens.toLocaleString()}`)
+    .join(', ')}.`;
+
+export {describeTokenOverflow, estimateTokens, formatTokenEstimate};
+export type {TokenEstimate, TokenSection};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it, vi} from 'vitest';
+import {createFakeProvider} from './fakeProvider';
+import type {Fixture, FixtureStore} from './fixtures';
+import type {ChatSession} from './provider';
+import {createTrafficProvider} from './trafficProvider';
+
+const MODEL = 'gemini-2.5-flash';
+const QUESTIONS = [
+  'What happens in the first minute?',
+  'Who is speaking at 01:30?',
+  'Summarize the ending in one sentence.',
+];
+
+function createMemoryStore(): FixtureStore & {fixtures: Map<string, Fixture>} {
+  const fixtures = new Map<string, Fixture>();
+  return {
+    fixtures,
+    get: async (hash) => fixtures.get(hash),
+    async put(fixture) {
+      fixtures.set(fixture.hash, fixture);
+    },
+  };
+}
+
+// Sends each question in turn and returns the chunks of every answer.
+async function converse(chat: ChatSession) {
+  const answers: string[][] = [];
+  for (const message of QUESTIONS) {
+    const chunks: string[] = [];
+    for await (const chunk of await chat.sendMessageStream({message})) {
+      chunks.push(chunk.text);
+    }
+    answers.push(chunks);
+  }
+  return answers;
+}
+
+describe('createTrafficProvider', () => {
+  it('replays a recorded chat with several turns and chunks', async () => {
+    const store = createMemoryStore();
+    const recorder = createTrafficProvider(
+      createFakeProvider(),
+      'record',
+      store,
+      'fake',
+    );
+    const recordedChat = recorder.createChat(MODEL);
+    const recorded = await converse(recordedChat);
+    expect(recorded.every((chunks) => chunks.length > 1)).toBe(true);
+    // The inner chat keeps a content per streamed chunk.
+    expect(recordedChat.getHistory().length).toBeGreaterThan(
+      QUESTIONS.length * 2,
+    );
+    expect(store.fixtures.size).toBe(QUESTIONS.length);
+
+    const replayer = createTrafficProvider(null, 'replay', store, 'fake');
+    const replayedChat = replayer.createChat(MODEL);
+    expect(await converse(replayedChat)).toEqual(recorded);
+    expect(replayedChat.getHistory()).toHaveLength(QUESTIONS.length * 2);
+  }, 20_000);
+
+  it('fails to replay a chat that was not recorded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const replayer = createTrafficProvider(
+      null,
+      'replay',
+      createMemoryStore(),
+      'fake',
+    );
+    await expect(
+      replayer.createChat(MODEL).sendMessageStream({message: 'Hello'}),
+    ).rejects.toThrow('Replay mode: no recorded fixture matches');
+  });
+});
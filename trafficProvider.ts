@@ -0,0 +1,329 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {Content, GenerateContentResponse, Part, PartUnion} from '@google/genai';
+import type {ProviderName} from './config';
+import {Fixture, FixtureStore, hashRequest, normalizeRequest} from './fixtures';
+import type {AIProvider, ChatSession} from './provider';
+import {isAbortError} from './utils';
+
+// JSON round trip, which also drops the getters of SDK response classes.
+const toJson = (value: unknown) =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+const toResponse = (json: unknown) =>
+  Object.assign(new GenerateContentResponse(), json);
+
+const blobToJson = async (blob: Blob) => {
+  let binary = '';
+  new Uint8Array(await blob.arrayBuffer()).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return {type: blob.type, data: btoa(binary)};
+};
+
+const jsonToBlob = ({type, data}: {type: string; data: string}) =>
+  new Blob([Uint8Array.from(atob(data), (char) => char.charCodeAt(0))], {
+    type,
+  });
+
+// The text of the parts joined into one, then the other parts. Empty parts,
+// which the SDK chat leaves out of its history, are dropped.
+function mergeParts(parts: Part[]): Part[] {
+  const text = parts.map((part) => part.text ?? '').join('');
+  return [
+    ...(text ? [{text}] : []),
+    ...parts.filter(
+      (part) => part.text === undefined && Object.keys(part).length > 0,
+    ),
+  ];
+}
+
+// Folds streamed chunks into the single model turn a chat records.
+function mergeChunks(chunks: GenerateContentResponse[]): Content {
+  const parts = chunks.flatMap(
+    (chunk) => chunk.candidates?.[0]?.content?.parts ?? [],
+  );
+  return {role: 'model', parts: mergeParts(parts)};
+}
+
+// Chat history with one content per model turn. The SDK chat records a
+// content per streamed chunk and replayed chats one per turn, so requests
+// must be hashed from the merged form to match in both modes.
+const turnHistory = (history: Content[]): Content[] =>
+  history.reduce<Content[]>((turns, content) => {
+    const last = turns[turns.length - 1];
+    if (content.role !== 'model') return [...turns, content];
+    return last?.role === 'model'
+      ? [
+          ...turns.slice(0, -1),
+          {
+            role: 'model',
+            parts: mergeParts([...last.parts, ...(content.parts ?? [])]),
+          },
+        ]
+      : [...turns, {role: 'model', parts: mergeParts(content.parts ?? [])}];
+  }, []);
+
+interface ExchangeOptions<T> {
+  signal?: AbortSignal;
+  encode?: (result: T) => unknown | Promise<unknown>;
+  decode?: (json: unknown) => T;
+}
+
+/**
+ * Wraps a provider so every call is recorded as a fixture (`record`), or
+ * answered from fixtures alone (`replay`, where `inner` may be null).
+ * Fixtures are looked up by a hash of the normalized request; a replayed
+ * request without one fails with an error naming the operation.
+ */
+function createTrafficProvider(
+  inner: AIProvider | null,
+  mode: 'record' | 'replay',
+  store: FixtureStore,
+  name: ProviderName,
+): AIProvider {
+  async function lookup(operation: string, request: unknown) {
+    const normalized = normalizeRequest({operation, request});
+    return {normalized, hash: await hashRequest(normalized)};
+  }
+
+  async function replay(
+    operation: string,
+    normalized: unknown,
+    hash: string,
+  ): Promise<Fixture> {
+    const fixture = await store.get(hash);
+    if (!fixture) {
+      console.error(`No fixture for ${operation}`, normalized);
+      throw new Error(
+        `Replay mode: no recorded fixture matches this ${operation} request (${hash.slice(
+          0,
+          12,
+        )}). Record it first with AI_TRAFFIC_MODE=record.`,
+      );
+    }
+    if (fixture.error !== undefined) throw new Error(fixture.error);
+    return fixture;
+  }
+
+  async function save(
+    operation: string,
+    normalized: unknown,
+    hash: string,
+    outcome: {response?: unknown; error?: string},
+  ) {
+    await store
+      .put({
+        hash,
+        operation,
+        request: normalized,
+        ...outcome,
+        recordedAt: new Date().toISOString(),
+      })
+      .catch((e) => console.warn(`Could not record ${operation} fixture`, e));
+  }
+
+  async function exchange<T>(
+    operation: string,
+    request: unknown,
+    call: () => Promise<T>,
+    {signal, encode = (result) => result, decode}: ExchangeOptions<T> = {},
+  ): Promise<T> {
+    const {normalized, hash} = await lookup(operation, request);
+    if (mode === 'replay') {
+      signal?.throwIfAborted();
+      const {response} = await replay(operation, normalized, hash);
+      return decode ? decode(response) : (response as T);
+    }
+    try {
+      const result = await call();
+      await save(operation, normalized, hash, {
+        response: toJson(await encode(result)),
+      });
+      return result;
+    } catch (e) {
+      if (!isAbortError(e)) {
+        await save(operation, normalized, hash, {error: (e as Error).message});
+      }
+      throw e;
+    }
+  }
+
+  // Streams are recorded chunk by chunk while they are passed through, and
+  // replayed as the same chunks.
+  async function exchangeStream(
+    operation: string,
+    request: unknown,
+    call: () => Promise<AsyncGenerator<GenerateContentResponse>>,
+    signal?: AbortSignal,
+    onReplayed?: (chunks: GenerateContentResponse[]) => void,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const {normalized, hash} = await lookup(operation, request);
+    if (mode === 'replay') {
+      signal?.throwIfAborted();
+      const {response} = await replay(operation, normalized, hash);
+      const chunks = (response as unknown[]).map(toResponse);
+      return (async function* () {
+        yield* chunks;
+        onReplayed?.(chunks);
+      })();
+    }
+
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      stream = await call();
+    } catch (e) {
+      if (!isAbortError(e)) {
+        await save(operation, normalized, hash, {error: (e as Error).message});
+      }
+      throw e;
+    }
+    return (async function* () {
+      const chunks: unknown[] = [];
+      for await (const chunk of stream) {
+        chunks.push(toJson(chunk));
+        yield chunk;
+      }
+      await save(operation, normalized, hash, {response: chunks});
+    })();
+  }
+
+  function createChat(model: string, history: Content[] = []): ChatSession {
+    const innerChat = inner?.createChat(model, history);
+    // Replayed chats keep their own history, as there is no inner chat.
+    const turns = [...history];
+    const getHistory = () => innerChat?.getHistory() ?? [...turns];
+
+    return {
+      getHistory,
+      sendMessageStream(params) {
+        const message = Array.isArray(params.message)
+          ? params.message
+          : [params.message];
+        return exchangeStream(
+          'chat.sendMessageStream',
+          {model, history: turnHistory(getHistory()), ...params},
+          () => innerChat!.sendMessageStream(params),
+          params.config?.abortSignal,
+          (chunks) =>
+            turns.push(
+              {
+                role: 'user',
+                parts: message.map((part: PartUnion): Part =>
+                  typeof part === 'string' ? {text: part} : part,
+                ),
+              },
+              mergeChunks(chunks),
+            ),
+        );
+      },
+    };
+  }
+
+  return {
+    name,
+
+    createChat,
+
+    generateContent: (params) =>
+      exchange(
+        'generateContent',
+        params,
+        () => inner!.generateContent(params),
+        {
+          signal: params.config?.abortSignal,
+          decode: toResponse,
+        },
+      ),
+
+    generateContentStream: (params) =>
+      exchangeStream(
+        'generateContentStream',
+        params,
+        () => inner!.generateContentStream(params),
+        params.config?.abortSignal,
+      ),
+
+    countTokens: (params) =>
+      exchange('countTokens', params, () => inner!.countTokens(params), {
+        signal: params.config?.abortSignal,
+      }),
+
+    async uploadFile(file, options = {}) {
+      const uploaded = await exchange(
+        'uploadFile',
+        {file},
+        () => inner!.uploadFile(file, options),
+        {signal: options.signal},
+      );
+      if (mode === 'replay') options.onProgress?.(file.size, file.size);
+      return uploaded;
+    },
+
+    getFile: (fileName, signal) =>
+      exchange(
+        'getFile',
+        {name: fileName},
+        () => inner!.getFile(fileName, signal),
+        {
+          signal,
+        },
+      ),
+
+    deleteFile: (fileName) =>
+      exchange('deleteFile', {name: fileName}, () =>
+        inner!.deleteFile(fileName),
+      ),
+
+    createCache: (params) =>
+      exchange('createCache', params, () => inner!.createCache(params)),
+
+    updateCache: (params) =>
+      exchange('updateCache', params, () => inner!.updateCache(params)),
+
+    deleteCache: (cacheName) =>
+      exchange('deleteCache', {name: cacheName}, () =>
+        inner!.deleteCache(cacheName),
+      ),
+
+    searchVideos: (model, query, signal) =>
+      exchange(
+        'searchVideos',
+        {model, query},
+        () => inner!.searchVideos(model, query, signal),
+        {signal},
+      ),
+
+    listPlaylistVideos: (playlistId, signal) =>
+      exchange(
+        'listPlaylistVideos',
+        {playlistId},
+        () => inner!.listPlaylistVideos(playlistId, signal),
+        {signal},
+      ),
+
+    synthesizeSpeech: (model, text, voice, signal) =>
+      exchange(
+        'synthesizeSpeech',
+        {model, text, voice},
+        () => inner!.synthesizeSpeech(model, text, voice, signal),
+        {signal, encode: blobToJson, decode: jsonToBlob},
+      ),
+
+    embed: (model, texts, signal) =>
+      exchange(
+        'embed',
+        {model, texts},
+        () => inner!.embed(model, texts, signal),
+        {
+          signal,
+        },
+      ),
+  };
+}
+
+export {createTrafficProvider};
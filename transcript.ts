@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {TranscriptSegment} from './results';
+import {Cue, toSrt as cuesToSrt, toVtt as cuesToVtt} from './subtitles';
+import {timecodeToSecs} from './timecode';
+
+// Speaker labels in the order they first speak.
+const speakerNames = (segments: TranscriptSegment[]) => [
+  ...new Set(segments.map(({speaker}) => speaker)),
+];
+
+// Renames speakers everywhere in the transcript, by their original label.
+const renameSpeakers = (
+  segments: TranscriptSegment[],
+  names: Record<string, string>,
+) =>
+  segments.map((segment) => ({
+    ...segment,
+    speaker: names[segment.speaker]?.trim() || segment.speaker,
+  }));
+
+/**
+ * Seconds each speaker talks in total, as chart data. Each point is placed at
+ * the speaker's first segment, so clicking it jumps there.
+ */
+const talkTime = (segments: TranscriptSegment[]) =>
+  speakerNames(segments).map((speaker) => {
+    const own = segments.filter((segment) => segment.speaker === speaker);
+    return {
+      time: own[0].time,
+      label: speaker,
+      value: Math.round(
+        own.reduce(
+          (sum, {time, end}) =>
+            sum + timecodeToSecs(end) - timecodeToSecs(time),
+          0,
+        ),
+      ),
+    };
+  });
+
+const toCues = (
+  segments: TranscriptSegment[],
+  cueText: (segment: TranscriptSegment) => string,
+): Cue[] =>
+  segments.map((segment) => ({
+    startSecs: timecodeToSecs(segment.time),
+    endSecs: timecodeToSecs(segment.end),
+    text: cueText(segment),
+  }));
+
+/** SubRip subtitles with the speaker in front of each cue. */
+const toSrt = (segments: TranscriptSegment[]) =>
+  cuesToSrt(toCues(segments, ({speaker, text}) => `${speaker}: ${text}`));
+
+/** WebVTT subtitles with each cue tagged with its speaker as a voice span. */
+const toVtt = (segments: TranscriptSegment[]) =>
+  cuesToVtt(toCues(segments, ({speaker, text}) => `<v ${speaker}>${text}`));
+
+/**
+ * The transcript as a plain-text script: one paragraph per turn, with
+ * consecutive segments by the same speaker joined.
+ */
+const toScript = (segments: TranscriptSegment[]) => {
+  const turns: {speaker: string; time: string; texts: string[]}[] = [];
+  segments.forEach(({speaker, time, text}) => {
+    const last = turns[turns.length - 1];
+    if (last?.speaker === speaker) {
+      last.texts.push(text);
+    } else {
+      turns.push({speaker, time, texts: [text]});
+    }
+  });
+  return (
+    turns
+      .map(
+        ({speaker, time, texts}) =>
+          `${speaker.toUpperCase()} [${time}]\n${texts.join(' ')}`,
+      )
+      .join('\n\n') + '\n'
+  );
+};
+
+export {renameSpeakers, speakerNames, talkTime, toScript, toSrt, toVtt};
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {File as GenAIFile} from '@google/genai';
+import {delay} from './utils';
+
+// Chunks must be a multiple of 256 KiB, except for the last one.
+const CHUNK_SIZE = 32 * 256 * 1024; // 8 MiB
+const MAX_CHUNK_RETRIES = 5;
+
+// Upload sessions stay valid on the server for about a week, so remembering
+// them lets a dropped upload resume even after a page reload.
+const SESSION_STORAGE_KEY = 'resumableUploadSessions';
+
+interface UploadProgress {
+  phase: 'hashing' | 'uploading' | 'processing';
+  bytesSent: number;
+  totalBytes: number;
+  elapsedMs: number;
+  // Remote file state while processing, e.g. PROCESSING.
+  state?: string;
+}
+
+interface ResumableUploadOptions {
+  // Files API upload URL, e.g. the API proxy's /upload/v1beta/files.
+  endpoint: string;
+  signal?: AbortSignal;
+  onProgress?: (bytesSent: number, totalBytes: number) => void;
+}
+
+interface ChunkResponse {
+  status: number;
+  headers: (name: string) => string | null;
+  body: string;
+}
+
+const sessionKey = (file: File) =>
+  [file.name, file.size, file.type, file.lastModified].join('|');
+
+function loadSessions(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveSession(file: File, uploadUrl: string | null) {
+  const sessions = loadSessions();
+  if (uploadUrl) {
+    sessions[sessionKey(file)] = uploadUrl;
+  } else {
+    delete sessions[sessionKey(file)];
+  }
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(sessions));
+}
+
+// XMLHttpRequest is used instead of fetch because only it reports upload
+// progress for the request body.
+function send(
+  url: string,
+  headers: Record<string, string>,
+  body: Blob | string | null,
+  signal?: AbortSignal,
+  onUploadProgress?: (loaded: number) => void,
+): Promise<ChunkResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value),
+    );
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (e) => onUploadProgress(e.loaded);
+    }
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, {once: true});
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        status: xhr.status,
+        headers: (name) => xhr.getResponseHeader(name),
+        body: xhr.responseText,
+      });
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error('Network error during upload.'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    xhr.send(body);
+  });
+}
+
+async function startSession(
+  file: File,
+  endpoint: string,
+  signal?: AbortSignal,
+) {
+  const response = await send(
+    endpoint,
+    {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': file.size.toString(),
+      'X-Goog-Upload-Header-Content-Type': file.type,
+      'Content-Type': 'application/json',
+    },
+    JSON.stringify({file: {displayName: file.name}}),
+    signal,
+  );
+  const uploadUrl = response.headers('x-goog-upload-url');
+  if (response.status !== 200 || !uploadUrl) {
+    throw new Error(
+      `Could not start upload (HTTP ${response.status}): ${response.body}`,
+    );
+  }
+  // The proxy returns the session URL relative to the endpoint.
+  return new URL(uploadUrl, endpoint).href;
+}
+
+// Asks the server how many bytes of an interrupted session it already has.
+// Returns null when the session is gone and the upload must start over.
+async function queryOffset(
+  uploadUrl: string,
+  signal?: AbortSignal,
+): Promise<number | null> {
+  const response = await send(
+    uploadUrl,
+    {'X-Goog-Upload-Command': 'query'},
+    null,
+    signal,
+  );
+  if (response.status !== 200) return null;
+  if (response.headers('x-goog-upload-status') === 'final') return null;
+  const received = response.headers('x-goog-upload-size-received');
+  return received === null ? null : Number(received);
+}
+
+/**
+ * Uploads `file` with the resumable upload protocol of the Files API. Chunks
+ * that fail because of network errors are retried from the offset the server
+ * reports, and an unfinished session for the same file is picked up again.
+ */
+async function resumableUpload(
+  file: File,
+  {endpoint, signal, onProgress}: ResumableUploadOptions,
+): Promise<GenAIFile> {
+  let uploadUrl = loadSessions()[sessionKey(file)];
+  let offset = uploadUrl ? await queryOffset(uploadUrl, signal) : null;
+  if (offset === null) {
+    uploadUrl = await startSession(file, endpoint, signal);
+    saveSession(file, uploadUrl);
+    offset = 0;
+  } else {
+    console.log(`Resuming upload of ${file.name} at byte ${offset}`);
+  }
+  onProgress?.(offset, file.size);
+
+  let failures = 0;
+  while (true) {
+    const end = Math.min(offset + CHUNK_SIZE, file.size);
+    const isLast = end === file.size;
+    const chunkStart = offset;
+    let response: ChunkResponse;
+    try {
+      response = await send(
+        uploadUrl,
+        {
+          'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          'X-Goog-Upload-Offset': chunkStart.toString(),
+        },
+        file.slice(chunkStart, end),
+        signal,
+        (loaded) => onProgress?.(chunkStart + loaded, file.size),
+      );
+    } catch (e) {
+      if (signal?.aborted || ++failures > MAX_CHUNK_RETRIES) throw e;
+      console.warn(`Upload chunk failed, retrying (${failures})`, e);
+      await delay(1000 * 2 ** (failures - 1), signal);
+      const resumeAt = await queryOffset(uploadUrl, signal).catch(() => null);
+      if (resumeAt !== null) offset = resumeAt;
+      continue;
+    }
+
+    // The API proxy rate limits chunks like any other request.
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers('retry-after')) || 1;
+      await delay(retryAfter * 1000, signal);
+      continue;
+    }
+    if (response.status >= 500 && failures < MAX_CHUNK_RETRIES) {
+      failures++;
+      await delay(1000 * 2 ** (failures - 1), signal);
+      const resumeAt = await queryOffset(uploadUrl, signal).catch(() => null);
+      if (resumeAt !== null) offset = resumeAt;
+      continue;
+    }
+    if (response.status !== 200) {
+      saveSession(file, null);
+      throw new Error(
+        `Upload failed (HTTP ${response.status}): ${response.body}`,
+      );
+    }
+
+    failures = 0;
+    offset = end;
+    onProgress?.(offset, file.size);
+    if (isLast) {
+      saveSession(file, null);
+      return JSON.parse(response.body).file as GenAIFile;
+    }
+  }
+}
+
+export {resumableUpload};
+export type {UploadProgress};
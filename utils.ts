@@ -17,20 +17,85 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-export const timeToSecs = (timecode) => {
-  const split = timecode.split(':').map(parseFloat);
+import type {UploadProgress} from './upload';
 
-  return split.length === 2
-    ? split[0] * 60 + split[1]
-    : split[0] * 3600 + split[1] * 60 + split[2];
+// Human-readable status line for an in-flight upload.
+export const formatUploadProgress = (progress: UploadProgress): string => {
+  const seconds = Math.round(progress.elapsedMs / 1000);
+  if (progress.phase === 'hashing') {
+    return 'Checking for an earlier upload...';
+  }
+  if (progress.phase === 'processing') {
+    return `Processing... ${seconds}s`;
+  }
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  const percent = progress.totalBytes
+    ? Math.floor((progress.bytesSent / progress.totalBytes) * 100)
+    : 100;
+  return `Uploading ${percent}% (${mb(progress.bytesSent)} / ${mb(
+    progress.totalBytes,
+  )} MB)`;
 };
 
-// Helper function to extract YouTube video ID from various URL formats.
-export const getYouTubeVideoId = (url: string): string | null => {
-  if (!url) return null;
-  const youtubeRegex = new RegExp(
-    '(?:youtube(?:-nocookie)?\\.com\\/(?:[^\\/\\n\\s]+\\/\\S+\\/|(?:v|e(?:mbed)?)\\/|\\S*?[?&]v=)|youtu\\.be\\/)([a-zA-Z0-9_-]{11})',
-  );
-  const match = url.match(youtubeRegex);
-  return match ? match[1] : null;
+// Resolves after `ms` milliseconds, or rejects with an AbortError as soon as
+// `signal` is aborted.
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+
+// True for errors raised because an AbortSignal fired.
+export const isAbortError = (error: unknown): boolean =>
+  (error as Error)?.name === 'AbortError';
+
+// Wraps 16-bit little-endian mono PCM samples in a WAV header so the audio
+// can be played by an <audio> element.
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) =>
+    [...value].forEach((char, i) =>
+      header.setUint8(offset + i, char.charCodeAt(0)),
+    );
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true); // block align
+  header.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+  return new Blob([header, pcm], {type: 'audio/wav'});
 };
+
+// Saves text content as a file through a temporary download link.
+export const downloadFile = (
+  content: string,
+  fileName: string,
+  mimeType: string,
+) => {
+  const url = URL.createObjectURL(new Blob([content], {type: mimeType}));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
\ No newline at end of file
@@ -1,18 +1,46 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fixtureServer } from './fixtureServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays in the API proxy (npm run proxy); the app only
+    // talks to it through /api.
+    const apiProxy = {
+      '/api': {
+        target: env.PROXY_TARGET || 'http://localhost:8787',
+        rewrite: (p: string) => p.replace(/^\/api/, ''),
+        xfwd: true,
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
+      },
+      plugins: [react(), fixtureServer(path.resolve(__dirname, 'fixtures'))],
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            analyzer: path.resolve(__dirname, 'analyzer.html'),
+          },
+        },
       },
-      plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL ?? ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? ''),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL ?? ''),
+        'process.env.AI_TTS_MODEL': JSON.stringify(env.AI_TTS_MODEL ?? ''),
+        'process.env.AI_TTS_VOICE': JSON.stringify(env.AI_TTS_VOICE ?? ''),
+        'process.env.AI_EMBEDDING_MODEL': JSON.stringify(env.AI_EMBEDDING_MODEL ?? ''),
+        'process.env.AI_TRAFFIC_MODE': JSON.stringify(env.AI_TRAFFIC_MODE ?? ''),
+        'process.env.AI_FIXTURE_STORE': JSON.stringify(env.AI_FIXTURE_STORE ?? '')
       },
       resolve: {
         alias: {
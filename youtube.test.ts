@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import {describe, expect, it} from 'vitest';
+import {
+  embedUrl,
+  findYouTubeUrl,
+  findYouTubeUrls,
+  playlistUrl,
+  watchUrl,
+  withoutUrl,
+} from './youtube';
+
+const VIDEO = 'dQw4w9WgXcQ';
+
+describe('findYouTubeUrls', () => {
+  it.each([
+    [`https://www.youtube.com/watch?v=${VIDEO}`, 'video'],
+    [`www.youtube.com/watch?v=${VIDEO}`, 'video'],
+    [`https://m.youtube.com/watch?v=${VIDEO}`, 'video'],
+    [`https://music.youtube.com/watch?v=${VIDEO}`, 'video'],
+    [`https://youtu.be/${VIDEO}`, 'video'],
+    [`https://www.youtube.com/shorts/${VIDEO}`, 'shorts'],
+    [`https://www.youtube.com/live/${VIDEO}`, 'live'],
+    [`https://www.youtube.com/embed/${VIDEO}`, 'embed'],
+    [`https://www.youtube-nocookie.com/embed/${VIDEO}`, 'embed'],
+    [`https://www.youtube.com/v/${VIDEO}`, 'embed'],
+  ])('reads the video in %s', (url, kind) => {
+    expect(findYouTubeUrl(url)).toMatchObject({videoId: VIDEO, kind, url});
+  });
+
+  it.each([
+    ['t=90', 90],
+    ['t=90s', 90],
+    ['t=1m30s', 90],
+    ['t=1h2m3s', 3723],
+    ['t=90.7', 90],
+    ['start=15', 15],
+    ['t=abc', 0],
+  ])('reads the start offset %s', (offset, startSecs) => {
+    expect(
+      findYouTubeUrl(`https://www.youtube.com/watch?v=${VIDEO}&${offset}`)
+        .startSecs,
+    ).toBe(startSecs);
+    expect(
+      findYouTubeUrl(`https://youtu.be/${VIDEO}?${offset}`).startSecs,
+    ).toBe(startSecs);
+  });
+
+  it('reads the start offset after #', () => {
+    expect(
+      findYouTubeUrl(`https://www.youtube.com/watch?v=${VIDEO}#t=2m`).startSecs,
+    ).toBe(120);
+    expect(findYouTubeUrl(`https://youtu.be/${VIDEO}#t=1m30s`).startSecs).toBe(
+      90,
+    );
+  });
+
+  it('reads playlists', () => {
+    expect(
+      findYouTubeUrl('https://www.youtube.com/playlist?list=PLabc123'),
+    ).toMatchObject({videoId: null, playlistId: 'PLabc123', kind: 'playlist'});
+    expect(
+      findYouTubeUrl(
+        'https://www.youtube.com/embed/videoseries?list=PLabc123&t=30',
+      ),
+    ).toMatchObject({
+      videoId: null,
+      startSecs: 0,
+      playlistId: 'PLabc123',
+      kind: 'playlist',
+    });
+    expect(
+      findYouTubeUrl(`https://www.youtube.com/watch?v=${VIDEO}&list=PLabc123`),
+    ).toMatchObject({videoId: VIDEO, playlistId: 'PLabc123', kind: 'video'});
+  });
+
+  it('leaves trailing punctuation out of the link', () => {
+    const text = `Have you seen this (https://youtu.be/${VIDEO}?t=10)? Or https://www.youtube.com/watch?v=${VIDEO}.`;
+    const [first, second] = findYouTubeUrls(text);
+    expect(first).toMatchObject({
+      url: `https://youtu.be/${VIDEO}?t=10`,
+      startSecs: 10,
+    });
+    expect(text.slice(first.span.start, first.span.end)).toBe(first.url);
+    expect(second.url).toBe(`https://www.youtube.com/watch?v=${VIDEO}`);
+    expect(text.slice(second.span.start, second.span.end)).toBe(second.url);
+  });
+
+  it('finds every link in order', () => {
+    const text = `Compare https://youtu.be/${VIDEO} with youtube.com/shorts/abcdefghijk`;
+    expect(findYouTubeUrls(text).map(({videoId}) => videoId)).toEqual([
+      VIDEO,
+      'abcdefghijk',
+    ]);
+  });
+
+  it.each([
+    '',
+    'No links here',
+    'https://www.youtube.com/',
+    'https://www.youtube.com/watch?v=tooShort',
+    `https://notyoutube.com/watch?v=${VIDEO}`,
+    `me@youtube.com/watch?v=${VIDEO}`,
+    `https://vimeo.com/${VIDEO}`,
+  ])('finds nothing in %j', (text) => {
+    expect(findYouTubeUrls(text)).toEqual([]);
+  });
+});
+
+describe('withoutUrl', () => {
+  it('removes the link from the text', () => {
+    const text = `Summarize https://youtu.be/${VIDEO} in one line`;
+    expect(withoutUrl(text, findYouTubeUrl(text))).toBe(
+      'Summarize in one line',
+    );
+  });
+});
+
+describe('watchUrl, embedUrl and playlistUrl', () => {
+  it('build links', () => {
+    expect(watchUrl(VIDEO)).toBe(`https://www.youtube.com/watch?v=${VIDEO}`);
+    expect(watchUrl(VIDEO, 90)).toBe(
+      `https://www.youtube.com/watch?v=${VIDEO}&t=90s`,
+    );
+    expect(embedUrl(VIDEO)).toBe(`https://www.youtube.com/embed/${VIDEO}`);
+    expect(embedUrl(VIDEO, 30, {enablejsapi: '1'})).toBe(
+      `https://www.youtube.com/embed/${VIDEO}?enablejsapi=1&start=30`,
+    );
+    expect(playlistUrl('PLabc123')).toBe(
+      'https://www.youtube.com/playlist?list=PLabc123',
+    );
+  });
+
+  it('round-trips through findYouTubeUrl', () => {
+    expect(findYouTubeUrl(watchUrl(VIDEO, 75))).toMatchObject({
+      videoId: VIDEO,
+      startSecs: 75,
+    });
+    expect(findYouTubeUrl(embedUrl(VIDEO, 75))).toMatchObject({
+      videoId: VIDEO,
+      startSecs: 75,
+      kind: 'embed',
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+import type {YouTubeSearchResult} from './provider';
+import {parseTimecode} from './timecode';
+
+type YouTubeUrlKind = 'video' | 'shorts' | 'live' | 'embed' | 'playlist';
+
+// A YouTube link found in a URL field or in a longer message.
+interface YouTubeUrl {
+  // Null for a link to a playlist alone.
+  videoId: string | null;
+  // From t= or start=; 0 when the link has no offset.
+  startSecs: number;
+  playlistId: string | null;
+  kind: YouTubeUrlKind;
+  // Where the link is in the text it was found in, end exclusive.
+  span: {start: number; end: number};
+  // The link as written, without trailing punctuation.
+  url: string;
+}
+
+// A playlist and its videos, as the YouTube Data API lists them.
+interface YouTubePlaylist {
+  playlistId: string;
+  videos: YouTubeSearchResult[];
+}
+
+// Links with or without the scheme, on any youtube.com subdomain (www, m,
+// music), youtube-nocookie.com or youtu.be.
+const LINK_PATTERN =
+  /(?<![\w.@-])(?:https?:\/\/)?(?:[\w-]+\.)*(?:youtube(?:-nocookie)?\.com|youtu\.be)(?:\/[^\s<>"'`]*)?/gi;
+// Punctuation that ends a sentence rather than the link.
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}>]+$/;
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+const PLAYLIST_ID_PATTERN = /^[\w-]{2,}$/;
+// Path prefixes followed by a video ID.
+const PATH_KINDS: Record<string, YouTubeUrlKind> = {
+  shorts: 'shorts',
+  live: 'live',
+  embed: 'embed',
+  v: 'embed',
+  e: 'embed',
+};
+
+const validId = (id: string | null | undefined, pattern: RegExp) =>
+  id && pattern.test(id) ? id : null;
+
+// t=1m30s, t=90, start=90 or #t=90; anything unreadable starts at 0.
+function startOffset(url: URL) {
+  const hash = new URLSearchParams(url.hash.slice(1));
+  const value =
+    url.searchParams.get('t') ??
+    url.searchParams.get('start') ??
+    hash.get('t') ??
+    hash.get('start');
+  if (!value) return 0;
+  const parsed = parseTimecode(value);
+  return parsed.ok === true ? Math.floor(parsed.secs) : 0;
+}
+
+// The video ID and kind a link points at, from its host and path.
+function videoTarget(url: URL): {
+  videoId: string | null;
+  kind: YouTubeUrlKind;
+} {
+  const [first, second] = url.pathname.split('/').filter(Boolean);
+  if (url.hostname.endsWith('youtu.be')) {
+    return {videoId: validId(first, VIDEO_ID_PATTERN), kind: 'video'};
+  }
+  if (first === 'watch') {
+    return {
+      videoId: validId(url.searchParams.get('v'), VIDEO_ID_PATTERN),
+      kind: 'video',
+    };
+  }
+  // embed/videoseries?list= embeds a playlist.
+  if (Object.hasOwn(PATH_KINDS, first) && second !== 'videoseries') {
+    return {
+      videoId: validId(second, VIDEO_ID_PATTERN),
+      kind: PATH_KINDS[first],
+    };
+  }
+  return {videoId: null, kind: 'playlist'};
+}
+
+function toYouTubeUrl(
+  text: string,
+  span: {start: number; end: number},
+): YouTubeUrl | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+  const {videoId, kind} = videoTarget(url);
+  const playlistId = validId(url.searchParams.get('list'), PLAYLIST_ID_PATTERN);
+  if (!videoId && !playlistId) return null;
+  return {
+    videoId,
+    startSecs: videoId ? startOffset(url) : 0,
+    playlistId,
+    kind: videoId ? kind : 'playlist',
+    span,
+    url: text,
+  };
+}
+
+/** Every YouTube link in `text` that names a video or a playlist, in order. */
+function findYouTubeUrls(text: string): YouTubeUrl[] {
+  if (!text) return [];
+  return [...text.matchAll(LINK_PATTERN)].flatMap((match) => {
+    const link = match[0].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index!;
+    const found = toYouTubeUrl(link, {start, end: start + link.length});
+    return found ? [found] : [];
+  });
+}
+
+// The first YouTube link in `text`, if any.
+const findYouTubeUrl = (text: string): YouTubeUrl | null =>
+  findYouTubeUrls(text)[0] ?? null;
+
+// `text` without the link, e.g. the question asked along with it.
+const withoutUrl = (text: string, {span}: YouTubeUrl) =>
+  `${text.slice(0, span.start)} ${text.slice(span.end)}`
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const watchUrl = (videoId: string, startSecs = 0) =>
+  `https://www.youtube.com/watch?v=${videoId}${startSecs > 0 ? `&t=${startSecs}s` : ''}`;
+
+// `params` adds player parameters, e.g. {enablejsapi: '1'}.
+function embedUrl(
+  videoId: string,
+  startSecs = 0,
+  params: Record<string, string> = {},
+) {
+  const query = new URLSearchParams(params);
+  if (startSecs > 0) query.set('start', String(startSecs));
+  const search = query.toString();
+  return `https://www.youtube.com/embed/${videoId}${search ? `?${search}` : ''}`;
+}
+
+const playlistUrl = (playlistId: string) =>
+  `https://www.youtube.com/playlist?list=${playlistId}`;
+
+export {
+  embedUrl,
+  findYouTubeUrl,
+  findYouTubeUrls,
+  playlistUrl,
+  watchUrl,
+  withoutUrl,
+};
+export type {YouTubePlaylist, YouTubeUrl, YouTubeUrlKind};